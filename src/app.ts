@@ -0,0 +1,1443 @@
+/**
+ * Express App with TOON Serialization
+ * API endpoints for RAG system with PDF support; src/server.ts starts it
+ */
+
+import express, { Express, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import path from 'path';
+import fs from 'fs';
+import dotenv from 'dotenv';
+import { fileURLToPath } from 'url';
+import { pdfBufferToDocuments } from './utils/pdfProcessor.js';
+import { getLoader, loadDocuments, SUPPORTED_EXTENSIONS, DocumentLoader } from './utils/loaders.js';
+import { toonResponse, toonBody, TOON_CONTENT_TYPE } from './utils/toon.js';
+import { isContextFormat, CONTEXT_FORMATS } from './utils/contextSerializer.js';
+import { ragConfigFromEnv, indexPathFromEnv, collectionsDirFromEnv, apiKeysPathFromEnv, auditLogPathFromEnv } from './utils/config.js';
+import { CollectionManager, Collection, CollectionSettings, DEFAULT_COLLECTION, isCollectionName } from './utils/collections.js';
+import { validateFilter, combineFilters } from './utils/metadataFilter.js';
+import { ApiKeyStore } from './utils/apiKeys.js';
+import { AuditLog } from './utils/auditLog.js';
+import { AccessControl } from './utils/auth.js';
+import { aclAllows, applyAcl, parseAcl } from './utils/acl.js';
+import { isQueryTransformName, QUERY_TRANSFORMS } from './utils/queryTransforms.js';
+import { SessionStore } from './utils/sessionStore.js';
+import { hashContent } from './utils/hashing.js';
+import { EmbeddingBatchError } from './utils/embeddings.js';
+import { JobQueue, JobContext } from './utils/jobQueue.js';
+import { throwIfAborted } from './utils/rateLimit.js';
+import { isChunkStrategy, CHUNK_STRATEGIES, DEFAULT_CHUNK_SIZE, DEFAULT_OVERLAP, ChunkingOptions } from './utils/chunking.js';
+import { CallerIdentity, CollectionSummary, ConversationTurn, Document, IngestionJob, MetadataFilter, Session, QueryOptions, RAGResponse, PDFUploadResponse, DocumentUploadResponse, QueryRequest, IndexRequest, ChunkStrategy, IndexStats, ExtractionInfo } from './types.js';
+
+// Get __dirname equivalent in ES modules
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Load environment variables
+dotenv.config();
+
+// Initialize Express app
+const app: Express = express();
+
+// Create uploads directory
+const uploadsDir = path.join(__dirname, '..', 'uploads');
+if (!fs.existsSync(uploadsDir)) {
+  fs.mkdirSync(uploadsDir, { recursive: true });
+}
+
+// Configure multer for file uploads
+const storage = multer.memoryStorage();
+
+/**
+ * Error for a file refused by an upload filter, answered with 400
+ */
+function rejectedUpload(message: string): Error {
+  return Object.assign(new Error(message), { status: 400 });
+}
+
+const upload = multer({
+  storage,
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype === 'application/pdf') {
+      cb(null, true);
+    } else {
+      cb(rejectedUpload('Only PDF files are allowed'));
+    }
+  },
+});
+
+// Any file type with a registered loader
+const documentUpload = multer({
+  storage,
+  fileFilter: (req, file, cb) => {
+    if (getLoader(file.originalname, file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(rejectedUpload(`Unsupported file type. Supported extensions: ${SUPPORTED_EXTENSIONS.join(', ')}`));
+    }
+  },
+});
+
+// Middleware
+app.use(express.static(path.join(__dirname, '..', 'public')));
+app.use(express.json());
+app.use(express.text({ type: TOON_CONTENT_TYPE }));
+
+// TOON content negotiation: `Accept: text/toon` or `?format=toon` for responses,
+// `Content-Type: text/toon` for request bodies. JSON stays the default.
+app.use(toonBody);
+app.use(toonResponse);
+
+// Initialize RAG collections; the default collection keeps the RAG_INDEX_PATH index
+let collections: CollectionManager;
+
+try {
+  const config = ragConfigFromEnv();
+  if (config.provider === 'local') {
+    console.warn('! Using the local offline provider (set GEMINI_API_KEY to use Gemini)');
+  }
+
+  collections = new CollectionManager({
+    rootDir: collectionsDirFromEnv(),
+    ragConfig: config,
+    defaultIndexPath: indexPathFromEnv(),
+  });
+
+  console.log('✓ RAG System initialized successfully');
+} catch (error) {
+  console.error('✗ Failed to initialize RAG System:', error);
+  process.exit(1);
+}
+
+// Saved indexes: loaded on startup, and saved after every change with RAG_AUTO_SAVE=true
+const autoSave = process.env.RAG_AUTO_SAVE === 'true';
+
+try {
+  await collections.open();
+} catch (error) {
+  // Starting empty could let an auto-save overwrite a saved index
+  console.error('✗ Failed to load the saved collections:', error);
+  process.exit(1);
+}
+
+/**
+ * Save a collection's index after a change when auto-save is on
+ */
+function autoSaveIndex(collection: Collection): void {
+  if (!autoSave) {
+    return;
+  }
+  try {
+    collection.ragSystem.saveVectorStore(collection.indexPath);
+  } catch (error) {
+    console.error(`Auto-save of collection "${collection.config.name}" failed:`, error);
+  }
+}
+
+// API keys: every /api route except the health check needs one when the key file exists
+let access: AccessControl;
+
+try {
+  const keysPath = apiKeysPathFromEnv();
+  const keys = fs.existsSync(keysPath) ? ApiKeyStore.fromFile(keysPath) : undefined;
+  access = new AccessControl({ keys, audit: new AuditLog(auditLogPathFromEnv()) });
+  if (keys) {
+    console.log(`✓ Loaded ${keys.size} API keys from ${keysPath}`);
+  } else {
+    console.warn(`! No API key file at ${keysPath}; every route is open`);
+  }
+} catch (error) {
+  console.error('✗ Failed to load API keys:', error);
+  process.exit(1);
+}
+
+// Conversation sessions
+const sessions = new SessionStore({
+  ttlMs: (parseInt(process.env.RAG_SESSION_TTL_MINUTES || '', 10) || 30) * 60 * 1000,
+});
+
+// Background ingestion of uploads
+const jobs = new JobQueue({
+  retentionMs: (parseInt(process.env.RAG_JOB_RETENTION_MINUTES || '', 10) || 60) * 60 * 1000,
+});
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+/**
+ * Health check endpoint
+ */
+app.get('/api/health', (req: Request, res: Response) => {
+  const defaultCollection = collections.get(DEFAULT_COLLECTION);
+  res.json({
+    status: 'ok',
+    timestamp: new Date().toISOString(),
+    // Document counts depend on the caller's grants, so they are hidden when keys are required
+    documentCount: access.enabled ? null : defaultCollection.ragSystem.getDocumentCount(),
+    collectionCount: collections.list().length,
+    models: defaultCollection.ragSystem.getModelInfo(),
+    embeddingCache: defaultCollection.ragSystem.getEmbeddingCacheStats(),
+    index: { path: defaultCollection.indexPath, collectionsDir: collectionsDirFromEnv(), autoSave },
+    auth: access.enabled,
+  });
+});
+
+// Every route below needs an API key when keys are configured
+app.use('/api', access.authenticate());
+
+/**
+ * Describe the request's API key: its grants, quotas and current usage
+ */
+app.get('/api/me', (req: Request, res: Response) => {
+  const key = res.locals.apiKey;
+  res.json({
+    success: true,
+    auth: access.enabled,
+    key: key ? { id: key.id, grants: key.grants, quota: key.quota ?? {} } : null,
+    principals: access.identity(res)?.principals ?? null,
+    usage: access.getUsage(res),
+  });
+});
+
+// Upper bound for the per-upload chunk size field
+const MAX_CHUNK_SIZE = 20000;
+
+// Upper bound for a collection's topK and rerankTopK
+const MAX_TOP_K = 100;
+
+/**
+ * Read the chunking fields of a multipart upload, falling back to the
+ * collection's chunking settings and then to the defaults
+ */
+function parseChunkingFields(
+  body: Record<string, any>,
+  collection: Collection,
+  defaultStrategy: ChunkStrategy = 'paragraph'
+): (ChunkingOptions & { strategy: ChunkStrategy; chunkSize: number; overlap: number }) | { error: string } {
+  const settings = collection.config;
+  const strategy = body.strategy || settings.chunkStrategy || defaultStrategy;
+  if (!isChunkStrategy(strategy)) {
+    return { error: `strategy must be one of: ${CHUNK_STRATEGIES.join(', ')}` };
+  }
+
+  const chunkSize = body.chunkSize !== undefined && body.chunkSize !== ''
+    ? Number(body.chunkSize)
+    : settings.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_CHUNK_SIZE) {
+    return { error: `chunkSize must be an integer between 1 and ${MAX_CHUNK_SIZE}` };
+  }
+
+  const overlap = body.overlap !== undefined && body.overlap !== ''
+    ? Number(body.overlap)
+    : Math.min(settings.chunkOverlap ?? DEFAULT_OVERLAP, chunkSize - 1);
+  if (!Number.isInteger(overlap) || overlap < 0 || overlap >= chunkSize) {
+    return { error: 'overlap must be a non-negative integer smaller than chunkSize' };
+  }
+
+  if (strategy !== 'semantic') {
+    return { strategy, chunkSize, overlap };
+  }
+
+  const minChunkSize = body.minChunkSize !== undefined && body.minChunkSize !== '' ? Number(body.minChunkSize) : undefined;
+  if (minChunkSize !== undefined && (!Number.isInteger(minChunkSize) || minChunkSize < 1 || minChunkSize > chunkSize)) {
+    return { error: 'minChunkSize must be a positive integer no larger than chunkSize' };
+  }
+
+  const breakpointPercentile = body.breakpointPercentile !== undefined && body.breakpointPercentile !== ''
+    ? Number(body.breakpointPercentile)
+    : undefined;
+  if (breakpointPercentile !== undefined && !(breakpointPercentile >= 0 && breakpointPercentile <= 100)) {
+    return { error: 'breakpointPercentile must be a number between 0 and 100' };
+  }
+
+  return {
+    strategy,
+    chunkSize,
+    overlap,
+    minChunkSize,
+    breakpointPercentile,
+    embeddingProvider: collection.ragSystem.getEmbeddingGenerator(),
+  };
+}
+
+/**
+ * Report extraction and embedding progress of an upload job
+ */
+function jobProgressHooks(context: JobContext) {
+  return {
+    onExtracted: (info: ExtractionInfo) => {
+      context.update({ stage: 'chunking', characters: info.characters, pages: info.pages ?? null });
+    },
+    onProgress: (embedded: number, total: number) => {
+      context.update({ stage: embedded < total ? 'embedding' : 'indexing', embedded, toEmbed: total });
+    },
+  };
+}
+
+// Who may see an upload's documents, and who is uploading it
+interface UploadAccess {
+  acl?: string[];
+  identity?: CallerIdentity;
+}
+
+/**
+ * Describe a collection with only the documents the request's key may read:
+ * those its ACLs allow, within the sources its grants name
+ */
+function summarizeFor(res: Response, collection: Collection): CollectionSummary {
+  return collections.summarize(
+    collection,
+    access.identity(res),
+    access.sourceScope(res, 'reader', collection.config.name)
+  );
+}
+
+/**
+ * Check whether a source exists but is hidden from the caller by its ACL, so
+ * uploading under its name would replace documents the caller cannot see
+ */
+function isHiddenSource(collection: Collection, source: string, identity?: CallerIdentity): boolean {
+  return identity !== undefined &&
+    collection.ragSystem.getSourceDocuments(source).length > 0 &&
+    collection.ragSystem.getSourceDocuments(source, identity).length === 0;
+}
+
+/**
+ * Read the `acl` field of an upload
+ */
+function parseUploadAccess(res: Response, body: Record<string, any>): UploadAccess | { status: number; error: string } {
+  const acl = parseAcl(body.acl) || [];
+  if (!Array.isArray(acl)) {
+    return { status: 400, error: acl.error };
+  }
+  return { acl: acl.length > 0 ? acl : undefined, identity: access.identity(res) };
+}
+
+/**
+ * Extract, chunk and index an uploaded PDF
+ */
+async function ingestPDF(
+  collection: Collection,
+  file: Express.Multer.File,
+  chunking: ChunkingOptions & { strategy: ChunkStrategy; chunkSize: number; overlap: number },
+  uploadAccess: UploadAccess,
+  context: JobContext
+): Promise<PDFUploadResponse> {
+  const { strategy, chunkSize, overlap } = chunking;
+  const { ragSystem } = collection;
+  const { onExtracted, onProgress } = jobProgressHooks(context);
+
+  console.log(`\nUploading PDF to ${collection.config.name}: ${file.originalname} (${strategy}, size ${chunkSize}, overlap ${overlap})`);
+
+  // Checked again here since an earlier job may have created the source
+  if (isHiddenSource(collection, file.originalname, uploadAccess.identity)) {
+    throw new Error(`Requires the writer role for ${file.originalname} in collection ${collection.config.name}`);
+  }
+
+  // Re-uploading an unchanged file with the same chunking and ACL is a no-op
+  if (ragSystem.isSourceCurrent(file.originalname, hashContent(file.buffer), chunking, uploadAccess.acl)) {
+    const existing = ragSystem.getSourceDocuments(file.originalname);
+    console.log(`${file.originalname} is unchanged, skipping`);
+    return {
+      filename: file.originalname,
+      pages: existing[0]?.metadata?.pages || 0,
+      documentsCreated: existing.length,
+      chunkStrategy: strategy,
+      chunkSize,
+      chunkOverlap: overlap,
+      skipped: true,
+      indexStats: { added: 0, unchanged: existing.length, removed: 0 },
+      success: true,
+    };
+  }
+
+  // Convert PDF to documents
+  context.update({ stage: 'extracting' });
+  const documents = applyAcl(await pdfBufferToDocuments(
+    file.buffer,
+    file.originalname,
+    chunkSize,
+    overlap,
+    { ...chunking, onExtracted }
+  ), uploadAccess.acl);
+  throwIfAborted(context.signal);
+
+  console.log(`Created ${documents.length} chunks from PDF`);
+
+  // Index documents
+  context.update({ stage: 'embedding', chunks: documents.length, toEmbed: documents.length });
+  const indexStats = await ragSystem.indexDocuments(documents, { signal: context.signal, onProgress });
+  autoSaveIndex(collection);
+
+  return {
+    filename: file.originalname,
+    pages: documents[0]?.metadata?.pages || 0,
+    documentsCreated: documents.length,
+    chunkStrategy: strategy,
+    chunkSize,
+    chunkOverlap: overlap,
+    skipped: false,
+    indexStats,
+    success: true,
+  };
+}
+
+/**
+ * Load, chunk and index an uploaded document of any supported type
+ */
+async function ingestDocument(
+  collection: Collection,
+  file: Express.Multer.File,
+  loader: DocumentLoader,
+  chunking: ChunkingOptions & { strategy: ChunkStrategy; chunkSize: number; overlap: number },
+  uploadAccess: UploadAccess,
+  context: JobContext
+): Promise<DocumentUploadResponse> {
+  const { ragSystem } = collection;
+  const { onExtracted, onProgress } = jobProgressHooks(context);
+
+  console.log(`\nUploading ${loader.format} file to ${collection.config.name}: ${file.originalname}`);
+
+  // Row-based formats are not chunked
+  const chunked = loader.defaultStrategy !== null;
+  const response = (documentsCreated: number, skipped: boolean, indexStats: IndexStats): DocumentUploadResponse => ({
+    filename: file.originalname,
+    format: loader.format,
+    documentsCreated,
+    chunkStrategy: chunked ? chunking.strategy : null,
+    chunkSize: chunked ? chunking.chunkSize : null,
+    chunkOverlap: chunked ? chunking.overlap : null,
+    skipped,
+    indexStats,
+    success: true,
+  });
+
+  // Checked again here since an earlier job may have created the source
+  if (isHiddenSource(collection, file.originalname, uploadAccess.identity)) {
+    throw new Error(`Requires the writer role for ${file.originalname} in collection ${collection.config.name}`);
+  }
+
+  // Re-uploading an unchanged file with the same chunking and ACL is a no-op
+  if (ragSystem.isSourceCurrent(file.originalname, hashContent(file.buffer), chunking, uploadAccess.acl)) {
+    const existing = ragSystem.getSourceDocuments(file.originalname);
+    console.log(`${file.originalname} is unchanged, skipping`);
+    return response(existing.length, true, { added: 0, unchanged: existing.length, removed: 0 });
+  }
+
+  context.update({ stage: 'extracting' });
+  const documents = applyAcl(
+    await loadDocuments(file.buffer, file.originalname, file.mimetype, { ...chunking, onExtracted }),
+    uploadAccess.acl
+  );
+  if (documents.length === 0) {
+    throw new Error(`No content found in ${file.originalname}`);
+  }
+  throwIfAborted(context.signal);
+
+  console.log(`Created ${documents.length} documents from ${file.originalname}`);
+
+  context.update({ stage: 'embedding', chunks: documents.length, toEmbed: documents.length });
+  const indexStats = await ragSystem.indexDocuments(documents, { signal: context.signal, onProgress });
+  autoSaveIndex(collection);
+
+  return response(documents.length, false, indexStats);
+}
+
+/**
+ * Check whether the key may see a job: it uploaded the file, or it may read the
+ * source and the upload's ACL lets it in
+ */
+function canSeeJob(res: Response, job: IngestionJob): boolean {
+  if (job.keyId !== null && job.keyId === res.locals.apiKey?.id) {
+    return true;
+  }
+  return access.allowsSource(res, 'reader', job.collection, job.filename) &&
+    aclAllows(job.acl, access.identity(res));
+}
+
+/**
+ * Get a job the key may see, answering 404 for jobs it cannot so their existence is not revealed
+ */
+function visibleJob(req: Request, res: Response): IngestionJob | undefined {
+  const job = jobs.get(req.params.id);
+  if (!job || !canSeeJob(res, job)) {
+    res.status(404).json({
+      success: false,
+      error: `Job not found: ${req.params.id}`,
+    });
+    return undefined;
+  }
+  return job;
+}
+
+/**
+ * List ingestion jobs the key may see, newest first, optionally only those of one collection
+ */
+app.get('/api/jobs', (req: Request, res: Response) => {
+  const collection = typeof req.query.collection === 'string' ? req.query.collection : undefined;
+  res.json({
+    success: true,
+    jobs: jobs.list().filter(job =>
+      (collection === undefined || job.collection === collection) && canSeeJob(res, job)
+    ),
+  });
+});
+
+/**
+ * Get an ingestion job's status and progress
+ */
+app.get('/api/jobs/:id', (req: Request, res: Response) => {
+  const job = visibleJob(req, res);
+  if (!job) {
+    return;
+  }
+
+  res.json({
+    success: true,
+    job,
+  });
+});
+
+/**
+ * Cancel a queued or running ingestion job; the index is left as it was
+ */
+app.delete('/api/jobs/:id', (req: Request, res: Response) => {
+  const job = visibleJob(req, res);
+  if (!job) {
+    return;
+  }
+
+  if (!access.allowsSource(res, 'writer', job.collection, job.filename)) {
+    return access.forbid(req, res, 'writer', job.collection, job.filename);
+  }
+
+  if (job.status !== 'queued' && job.status !== 'running') {
+    return res.status(409).json({
+      success: false,
+      error: `Job already ${job.status}`,
+    });
+  }
+
+  jobs.cancel(job.id);
+  res.json({
+    success: true,
+    job,
+  });
+});
+
+/**
+ * Get a session if the request's API key created it
+ */
+function ownSession(res: Response, id: string): Session | undefined {
+  const session = sessions.get(id);
+  return session && session.keyId === (res.locals.apiKey?.id ?? null) ? session : undefined;
+}
+
+/**
+ * Create a conversation session
+ */
+app.post('/api/sessions', (req: Request, res: Response) => {
+  const session = sessions.create(res.locals.apiKey?.id ?? null);
+  res.status(201).json({
+    success: true,
+    session,
+  });
+});
+
+/**
+ * Get a session transcript
+ */
+app.get('/api/sessions/:id', (req: Request, res: Response) => {
+  const session = ownSession(res, req.params.id);
+  if (!session) {
+    return res.status(404).json({
+      success: false,
+      error: 'Session not found or expired',
+    });
+  }
+
+  res.json({
+    success: true,
+    session,
+  });
+});
+
+/**
+ * Delete a session
+ */
+app.delete('/api/sessions/:id', (req: Request, res: Response) => {
+  if (!ownSession(res, req.params.id) || !sessions.delete(req.params.id)) {
+    return res.status(404).json({
+      success: false,
+      error: 'Session not found or expired',
+    });
+  }
+
+  res.json({
+    success: true,
+    message: 'Session deleted',
+  });
+});
+
+/**
+ * Read collection settings from a request body. Only the fields present are
+ * returned, so a partial update leaves the others unchanged; null resets a field.
+ */
+function parseCollectionSettings(
+  body: Record<string, any>,
+  current: CollectionSettings = {}
+): CollectionSettings | { error: string } {
+  const settings: CollectionSettings = {};
+
+  if (body.description !== undefined) {
+    if (typeof body.description !== 'string') {
+      return { error: 'description must be a string' };
+    }
+    settings.description = body.description;
+  }
+
+  for (const field of ['topK', 'rerankTopK'] as const) {
+    const value = body[field];
+    if (value !== undefined) {
+      if (value !== null && (!Number.isInteger(value) || value < 1 || value > MAX_TOP_K)) {
+        return { error: `${field} must be an integer between 1 and ${MAX_TOP_K}, or null` };
+      }
+      settings[field] = value;
+    }
+  }
+
+  if (body.chunkStrategy !== undefined) {
+    if (body.chunkStrategy !== null && !isChunkStrategy(body.chunkStrategy)) {
+      return { error: `chunkStrategy must be one of: ${CHUNK_STRATEGIES.join(', ')}, or null` };
+    }
+    settings.chunkStrategy = body.chunkStrategy;
+  }
+
+  if (body.chunkSize !== undefined) {
+    if (body.chunkSize !== null && (!Number.isInteger(body.chunkSize) || body.chunkSize < 1 || body.chunkSize > MAX_CHUNK_SIZE)) {
+      return { error: `chunkSize must be an integer between 1 and ${MAX_CHUNK_SIZE}, or null` };
+    }
+    settings.chunkSize = body.chunkSize;
+  }
+
+  if (body.chunkOverlap !== undefined) {
+    if (body.chunkOverlap !== null && (!Number.isInteger(body.chunkOverlap) || body.chunkOverlap < 0)) {
+      return { error: 'chunkOverlap must be a non-negative integer, or null' };
+    }
+    settings.chunkOverlap = body.chunkOverlap;
+  }
+
+  const { chunkSize, chunkOverlap } = { ...current, ...settings };
+  if (chunkOverlap !== null && chunkOverlap !== undefined && chunkOverlap >= (chunkSize ?? DEFAULT_CHUNK_SIZE)) {
+    return { error: 'chunkOverlap must be smaller than chunkSize' };
+  }
+
+  return settings;
+}
+
+/**
+ * List the collections the key may read, with their settings and document counts
+ */
+app.get('/api/collections', (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    collections: collections.list()
+      .filter(collection => access.allowsSources(res, 'reader', collection.config.name))
+      .map(collection => summarizeFor(res, collection)),
+  });
+});
+
+// Collection management routes check the role in the collection they name
+const collectionParam = (req: Request) => req.params.name;
+
+/**
+ * Create a collection; needs the admin role in every collection
+ */
+app.post('/api/collections', access.require('admin'), (req: Request, res: Response) => {
+  try {
+    const { name, ...fields } = req.body || {};
+    if (!isCollectionName(name)) {
+      return res.status(400).json({
+        success: false,
+        error: 'name must be 1-64 letters, digits, "-" or "_", starting with a letter or digit',
+      });
+    }
+
+    if (collections.get(name)) {
+      return res.status(409).json({
+        success: false,
+        error: `Collection already exists: ${name}`,
+      });
+    }
+
+    const settings = parseCollectionSettings(fields);
+    if ('error' in settings) {
+      return res.status(400).json({
+        success: false,
+        error: settings.error,
+      });
+    }
+
+    const collection = collections.create(name, settings);
+    res.status(201).location(`/api/collections/${name}`).json({
+      success: true,
+      collection: summarizeFor(res, collection),
+    });
+  } catch (error: any) {
+    console.error('Create collection error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to create collection',
+    });
+  }
+});
+
+/**
+ * Get a collection's settings and document counts
+ */
+app.get('/api/collections/:name', access.requireSources('reader', collectionParam), (req: Request, res: Response) => {
+  const collection = collections.get(req.params.name);
+  if (!collection) {
+    return res.status(404).json({
+      success: false,
+      error: `Collection not found: ${req.params.name}`,
+    });
+  }
+
+  res.json({
+    success: true,
+    collection: summarizeFor(res, collection),
+  });
+});
+
+/**
+ * Update a collection's settings; they apply to later uploads and queries
+ */
+app.patch('/api/collections/:name', access.require('admin', collectionParam), (req: Request, res: Response) => {
+  try {
+    const collection = collections.get(req.params.name);
+    if (!collection) {
+      return res.status(404).json({
+        success: false,
+        error: `Collection not found: ${req.params.name}`,
+      });
+    }
+
+    const settings = parseCollectionSettings(req.body || {}, collection.config);
+    if ('error' in settings) {
+      return res.status(400).json({
+        success: false,
+        error: settings.error,
+      });
+    }
+
+    collections.update(collection.config.name, settings);
+    res.json({
+      success: true,
+      collection: summarizeFor(res, collection),
+    });
+  } catch (error: any) {
+    console.error('Update collection error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to update collection',
+    });
+  }
+});
+
+/**
+ * Delete a collection and its saved index, cancelling its pending uploads
+ */
+app.delete('/api/collections/:name', access.require('admin', collectionParam), (req: Request, res: Response) => {
+  try {
+    const collection = collections.get(req.params.name);
+    if (!collection) {
+      return res.status(404).json({
+        success: false,
+        error: `Collection not found: ${req.params.name}`,
+      });
+    }
+
+    if (collection.config.name === DEFAULT_COLLECTION) {
+      return res.status(400).json({
+        success: false,
+        error: 'The default collection cannot be deleted',
+      });
+    }
+
+    for (const job of jobs.list()) {
+      if (job.collection === collection.config.name) {
+        jobs.cancel(job.id);
+      }
+    }
+    collections.delete(collection.config.name);
+
+    res.json({
+      success: true,
+      message: `Collection ${collection.config.name} deleted`,
+    });
+  } catch (error: any) {
+    console.error('Delete collection error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to delete collection',
+    });
+  }
+});
+
+// ============================================================================
+// COLLECTION ROUTES
+// Served under /api/collections/:collection and, for the default collection, under /api
+// ============================================================================
+
+const collectionRoutes = express.Router({ mergeParams: true });
+
+collectionRoutes.use((req: Request, res: Response, next: NextFunction) => {
+  const name = req.params.collection ?? DEFAULT_COLLECTION;
+  const collection = collections.get(name);
+  if (!collection) {
+    return res.status(404).json({
+      success: false,
+      error: `Collection not found: ${name}`,
+    });
+  }
+
+  res.locals.collection = collection;
+  next();
+});
+
+/**
+ * Resolve the collections a query searches: the addressed collection, or
+ * every collection named in the request's `collections` field
+ */
+function queryCollections(
+  collection: Collection,
+  names: unknown
+): Collection[] | { status: number; error: string } {
+  if (names === undefined) {
+    return [collection];
+  }
+
+  if (!Array.isArray(names) || names.length === 0 || !names.every(name => typeof name === 'string')) {
+    return { status: 400, error: 'collections must be a non-empty array of collection names' };
+  }
+
+  const found: Collection[] = [];
+  for (const name of new Set<string>(names)) {
+    const target = collections.get(name);
+    if (!target) {
+      return { status: 404, error: `Collection not found: ${name}` };
+    }
+    found.push(target);
+  }
+  return found;
+}
+
+/**
+ * Retrieval options for a query: the addressed collection's settings, search
+ * targets when the query spans collections, the sources the key may read and
+ * its identity for document ACLs
+ */
+function retrievalOptions(
+  res: Response,
+  collection: Collection,
+  targets: Collection[],
+  filter: MetadataFilter | undefined,
+  crossCollection: boolean
+): QueryOptions {
+  const sourceFilter = (target: Collection) => access.sourceFilter(res, target.config.name);
+  return {
+    filter: crossCollection ? filter : combineFilters(filter, sourceFilter(collection)),
+    topK: collection.config.topK ?? undefined,
+    rerankTopK: collection.config.rerankTopK ?? undefined,
+    searchTargets: crossCollection ? collections.searchTargets(targets, sourceFilter) : undefined,
+    identity: access.identity(res),
+  };
+}
+
+/**
+ * A validated query request
+ */
+interface PreparedQueryRequest {
+  query: string;
+  session?: Session;
+  options: QueryOptions;
+}
+
+/**
+ * Validate a query request and resolve the collections it searches, its
+ * session and its query options. Sends the error response and returns
+ * undefined when the request is refused.
+ */
+function prepareQueryRequest(req: Request, res: Response): PreparedQueryRequest | undefined {
+  const { query, contextFormat, sessionId, filter, collections: names, transforms } = (req.body || {}) as QueryRequest;
+  const reject = (status: number, error: string): undefined => {
+    res.status(status).json({ success: false, error });
+    return undefined;
+  };
+
+  if (!query || typeof query !== 'string' || query.trim().length === 0) {
+    return reject(400, 'Query is required and must be a non-empty string');
+  }
+
+  if (contextFormat !== undefined && !isContextFormat(contextFormat)) {
+    return reject(400, `contextFormat must be one of: ${CONTEXT_FORMATS.join(', ')}`);
+  }
+
+  if (transforms !== undefined && !(Array.isArray(transforms) && transforms.every(isQueryTransformName))) {
+    return reject(400, `transforms must be a list of: ${QUERY_TRANSFORMS.join(', ')}`);
+  }
+
+  if (filter !== undefined) {
+    try {
+      validateFilter(filter);
+    } catch (error: any) {
+      return reject(400, error.message);
+    }
+  }
+
+  const collection: Collection = res.locals.collection;
+  const targets = queryCollections(collection, names);
+  if ('error' in targets) {
+    return reject(targets.status, targets.error);
+  }
+
+  const deniedTarget = targets.find(target => !access.allowsSources(res, 'reader', target.config.name));
+  if (deniedTarget) {
+    access.forbid(req, res, 'reader', deniedTarget.config.name);
+    return undefined;
+  }
+
+  const session = sessionId !== undefined ? ownSession(res, sessionId) : undefined;
+  if (sessionId !== undefined && !session) {
+    return reject(404, 'Session not found or expired');
+  }
+
+  if (targets.every(target => target.ragSystem.getDocumentCount(access.identity(res)) === 0)) {
+    return reject(400, 'No documents indexed. Please upload a PDF first.');
+  }
+
+  if (!access.checkTokens(req, res)) {
+    return undefined;
+  }
+
+  // The session's lifetime restarts with the query, so it only expires during very long ones
+  if (session) {
+    sessions.refresh(session.id);
+  }
+
+  return {
+    query,
+    session,
+    options: {
+      contextFormat,
+      history: session?.turns,
+      transforms,
+      ...retrievalOptions(res, collection, targets, filter, names !== undefined),
+    },
+  };
+}
+
+/**
+ * Find a source of an upload or index request the key may not write: one its
+ * grants leave out, or one whose indexed documents are all hidden from it.
+ * Both are refused with the same 403, so a hidden source's existence is not revealed.
+ */
+function deniedSource(res: Response, collection: Collection, sources: string[]): string | undefined {
+  const identity = access.identity(res);
+  return sources.find(source =>
+    !access.allowsSource(res, 'writer', collection.config.name, source) ||
+    isHiddenSource(collection, source, identity)
+  );
+}
+
+/**
+ * Upload PDF and index it in the background, returning the ingestion job
+ */
+collectionRoutes.post('/upload-pdf', access.requireSources('writer'), upload.single('pdf'), (req: Request, res: Response) => {
+  if (!req.file) {
+    return res.status(400).json({
+      success: false,
+      error: 'No PDF file provided',
+    });
+  }
+
+  const collection: Collection = res.locals.collection;
+  if (deniedSource(res, collection, [req.file.originalname])) {
+    return access.forbid(req, res, 'writer', collection.config.name, req.file.originalname);
+  }
+
+  const chunking = parseChunkingFields(req.body || {}, collection);
+  if ('error' in chunking) {
+    return res.status(400).json({
+      success: false,
+      error: chunking.error,
+    });
+  }
+
+  const uploadAccess = parseUploadAccess(res, req.body || {});
+  if ('error' in uploadAccess) {
+    return res.status(uploadAccess.status).json({
+      success: false,
+      error: uploadAccess.error,
+    });
+  }
+
+  const file = req.file;
+  const job = jobs.enqueue(
+    {
+      collection: collection.config.name,
+      filename: file.originalname,
+      format: 'pdf',
+      keyId: res.locals.apiKey?.id ?? null,
+      acl: uploadAccess.acl ?? null,
+    },
+    context => ingestPDF(collection, file, chunking, uploadAccess, context)
+  );
+
+  res.status(202).location(`/api/jobs/${job.id}`).json({
+    success: true,
+    jobId: job.id,
+    job,
+  });
+});
+
+/**
+ * Upload any supported document (PDF, Markdown, HTML, DOCX, text, CSV, JSON)
+ * and index it in the background, returning the ingestion job
+ */
+collectionRoutes.post('/upload', access.requireSources('writer'), documentUpload.single('file'), (req: Request, res: Response) => {
+  if (!req.file) {
+    return res.status(400).json({
+      success: false,
+      error: 'No file provided',
+    });
+  }
+
+  const collection: Collection = res.locals.collection;
+  if (deniedSource(res, collection, [req.file.originalname])) {
+    return access.forbid(req, res, 'writer', collection.config.name, req.file.originalname);
+  }
+
+  const loader = getLoader(req.file.originalname, req.file.mimetype);
+  const chunking = parseChunkingFields(req.body || {}, collection, loader.defaultStrategy ?? 'paragraph');
+  if ('error' in chunking) {
+    return res.status(400).json({
+      success: false,
+      error: chunking.error,
+    });
+  }
+
+  const uploadAccess = parseUploadAccess(res, req.body || {});
+  if ('error' in uploadAccess) {
+    return res.status(uploadAccess.status).json({
+      success: false,
+      error: uploadAccess.error,
+    });
+  }
+
+  const file = req.file;
+  const job = jobs.enqueue(
+    {
+      collection: collection.config.name,
+      filename: file.originalname,
+      format: loader.format,
+      keyId: res.locals.apiKey?.id ?? null,
+      acl: uploadAccess.acl ?? null,
+    },
+    context => ingestDocument(collection, file, loader, chunking, uploadAccess, context)
+  );
+
+  res.status(202).location(`/api/jobs/${job.id}`).json({
+    success: true,
+    jobId: job.id,
+    job,
+  });
+});
+
+/**
+ * Index documents sent directly in the request body
+ */
+collectionRoutes.post('/index', access.requireSources('writer'), async (req: Request, res: Response) => {
+  try {
+    const { documents } = (req.body || {}) as IndexRequest;
+
+    if (!Array.isArray(documents) || documents.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Documents are required and must be a non-empty array',
+      });
+    }
+
+    const invalid = documents.find(
+      doc => !doc || typeof doc.id !== 'string' || typeof doc.content !== 'string'
+    );
+    if (invalid) {
+      return res.status(400).json({
+        success: false,
+        error: 'Each document must have a string id and content',
+      });
+    }
+
+    for (const doc of documents) {
+      if (doc.metadata?.acl === undefined) {
+        continue;
+      }
+      const acl = Array.isArray(doc.metadata.acl) ? parseAcl(doc.metadata.acl) || [] : null;
+      if (!Array.isArray(acl)) {
+        return res.status(400).json({
+          success: false,
+          error: `Document ${doc.id}: ${acl?.error ?? 'metadata.acl must be an array of principals'}`,
+        });
+      }
+      doc.metadata.acl = acl;
+    }
+
+    const collection: Collection = res.locals.collection;
+    const sources = documents.map(doc => doc.metadata?.source ?? doc.id);
+    const denied = deniedSource(res, collection, sources);
+    if (denied !== undefined) {
+      return access.forbid(req, res, 'writer', collection.config.name, denied);
+    }
+
+    const indexStats = await collection.ragSystem.indexDocuments(documents as Document[]);
+    autoSaveIndex(collection);
+
+    res.json({
+      success: true,
+      documentsIndexed: documents.length,
+      indexStats,
+      documentCount: summarizeFor(res, collection).documentCount,
+    });
+  } catch (error: any) {
+    console.error('Index error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to index documents',
+      failedChunks: error instanceof EmbeddingBatchError ? error.failures : undefined,
+    });
+  }
+});
+
+/**
+ * Record a query's turn in its session. Returns false when the session expired
+ * while the query ran; the answer is still sent, flagged with `sessionExpired`.
+ */
+function recordTurn(session: Session, turn: ConversationTurn): boolean {
+  if (!sessions.get(session.id)) {
+    return false;
+  }
+  sessions.addTurn(session.id, turn);
+  return true;
+}
+
+/**
+ * Query endpoint using TOON serialization
+ */
+collectionRoutes.post('/query', access.requireSources('reader'), async (req: Request, res: Response) => {
+  try {
+    const prepared = prepareQueryRequest(req, res);
+    if (!prepared) {
+      return;
+    }
+    const { query, session, options } = prepared;
+
+    console.log(`\nQuery received: "${query}"`);
+
+    // Process query through RAG system
+    const collection: Collection = res.locals.collection;
+    const ragResponse = await collection.ragSystem.query(query, options);
+    access.recordUsage(res, ragResponse.usage);
+
+    if (session) {
+      const recorded = recordTurn(session, {
+        question: query,
+        standaloneQuestion: ragResponse.standaloneQuestion,
+        answer: ragResponse.answer,
+        sourceIds: ragResponse.sources.map(doc => doc.id),
+        timestamp: ragResponse.timestamp,
+      });
+      if (recorded) {
+        ragResponse.sessionId = session.id;
+      } else {
+        ragResponse.sessionExpired = true;
+      }
+    }
+
+    res.json({
+      success: true,
+      data: ragResponse,
+    });
+  } catch (error: any) {
+    console.error('Query error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to process query',
+    });
+  }
+});
+
+/**
+ * Streaming query endpoint using Server-Sent Events.
+ * Emits `sources`, then `token` deltas, then `done` with timing and usage.
+ */
+collectionRoutes.post('/query/stream', access.requireSources('reader'), async (req: Request, res: Response) => {
+  const prepared = prepareQueryRequest(req, res);
+  if (!prepared) {
+    return;
+  }
+  const { query, session, options } = prepared;
+
+  // Cancel generation when the client goes away before the stream ends
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+
+  const sendEvent = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  try {
+    console.log(`\nStreaming query received: "${query}"`);
+
+    const collection: Collection = res.locals.collection;
+    const stream = collection.ragSystem.queryStream(query, options, controller.signal);
+    let standaloneQuestion: string | undefined;
+    let sourceIds: string[] = [];
+    let sessionExpired = false;
+
+    for await (const event of stream) {
+      if (controller.signal.aborted) break;
+
+      if (event.type === 'sources') {
+        standaloneQuestion = event.standaloneQuestion;
+        sourceIds = event.sources.map(doc => doc.id);
+      } else if (event.type === 'done') {
+        access.recordUsage(res, event.usage);
+        if (session) {
+          sessionExpired = !recordTurn(session, {
+            question: query,
+            standaloneQuestion,
+            answer: event.answer,
+            sourceIds,
+            timestamp: event.timestamp,
+          });
+        }
+      }
+
+      const { type, ...data } = event;
+      sendEvent(type, session ? { ...data, sessionId: session.id, ...(sessionExpired && { sessionExpired }) } : data);
+    }
+  } catch (error: any) {
+    if (!controller.signal.aborted) {
+      console.error('Streaming query error:', error);
+      sendEvent('error', { error: error.message || 'Failed to process query' });
+    }
+  } finally {
+    res.end();
+  }
+});
+
+/**
+ * Get metadata of the indexed documents the key may read
+ */
+collectionRoutes.get('/documents', access.requireSources('reader'), (req: Request, res: Response) => {
+  try {
+    const { ragSystem, config }: Collection = res.locals.collection;
+    const scope = access.sourceScope(res, 'reader', config.name);
+    const sources = ragSystem.getSources(access.identity(res)).filter(item => !scope || scope.includes(item.source));
+    const count = sources.reduce((total, item) => total + item.chunkCount, 0);
+    res.json({
+      success: true,
+      documentCount: count,
+      sources,
+      message: `${count} document(s) currently indexed`,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to retrieve documents',
+    });
+  }
+});
+
+/**
+ * Page through the chunks of one source
+ */
+collectionRoutes.get('/documents/:source/chunks', access.requireSources('reader'), (req: Request, res: Response) => {
+  try {
+    const { ragSystem, config }: Collection = res.locals.collection;
+    if (!access.allowsSource(res, 'reader', config.name, req.params.source)) {
+      return access.forbid(req, res, 'reader', config.name, req.params.source);
+    }
+
+    const chunks = ragSystem.getSourceDocuments(req.params.source, access.identity(res));
+    if (chunks.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: `Source not found: ${req.params.source}`,
+      });
+    }
+
+    const offset = Math.max(parseInt(String(req.query.offset ?? '0'), 10) || 0, 0);
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? '20'), 10) || 20, 1), 100);
+
+    res.json({
+      success: true,
+      source: req.params.source,
+      total: chunks.length,
+      offset,
+      limit,
+      chunks: chunks.slice(offset, offset + limit),
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to retrieve chunks',
+    });
+  }
+});
+
+/**
+ * Delete one source and all of its chunks
+ */
+collectionRoutes.delete('/documents/:source', access.requireSources('writer'), (req: Request, res: Response) => {
+  try {
+    const collection: Collection = res.locals.collection;
+    if (!access.allowsSource(res, 'writer', collection.config.name, req.params.source)) {
+      return access.forbid(req, res, 'writer', collection.config.name, req.params.source);
+    }
+
+    // Sources hidden by their ACLs are treated as missing, and a source with
+    // some hidden chunks cannot be deleted since that would remove them too
+    const identity = access.identity(res);
+    const visible = collection.ragSystem.getSourceDocuments(req.params.source, identity).length;
+    if (visible === 0) {
+      return res.status(404).json({
+        success: false,
+        error: `Source not found: ${req.params.source}`,
+      });
+    }
+    if (visible < collection.ragSystem.getSourceDocuments(req.params.source).length) {
+      return access.forbid(req, res, 'writer', collection.config.name, req.params.source);
+    }
+
+    const removed = collection.ragSystem.deleteSource(req.params.source);
+    autoSaveIndex(collection);
+
+    res.json({
+      success: true,
+      source: req.params.source,
+      chunksDeleted: removed,
+      documentCount: summarizeFor(res, collection).documentCount,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to delete source',
+    });
+  }
+});
+
+/**
+ * Clear all indexed documents
+ */
+collectionRoutes.post('/clear', access.require('admin'), (req: Request, res: Response) => {
+  try {
+    const collection: Collection = res.locals.collection;
+    collection.ragSystem.clear();
+    autoSaveIndex(collection);
+    res.json({
+      success: true,
+      message: 'All documents cleared',
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to clear documents',
+    });
+  }
+});
+
+/**
+ * Save vector store to disk
+ */
+collectionRoutes.post('/save', access.require('admin'), (req: Request, res: Response) => {
+  try {
+    const { ragSystem, indexPath }: Collection = res.locals.collection;
+    const manifest = ragSystem.saveVectorStore(indexPath);
+    res.json({
+      success: true,
+      message: `Vector store saved to ${indexPath}`,
+      manifest,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to save vector store',
+    });
+  }
+});
+
+/**
+ * Load vector store from disk
+ */
+collectionRoutes.post('/load', access.require('admin'), async (req: Request, res: Response) => {
+  try {
+    const collection: Collection = res.locals.collection;
+    const manifest = await collection.ragSystem.loadVectorStore(collection.indexPath);
+    res.json({
+      success: true,
+      message: `Vector store loaded from ${collection.indexPath}`,
+      documentCount: summarizeFor(res, collection).documentCount,
+      manifest,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to load vector store',
+    });
+  }
+});
+
+// Collection routes, scoped to a collection by name or to the default collection
+app.use('/api/collections/:collection', collectionRoutes);
+app.use('/api', collectionRoutes);
+
+// Error handling middleware
+// Client errors (rejected uploads, multer limits, malformed bodies) keep their 4xx status
+app.use((err: any, req: Request, res: Response, next: NextFunction) => {
+  let status = 500;
+  if (err instanceof multer.MulterError) {
+    status = 400;
+  } else if (err.status >= 400 && err.status < 500) {
+    status = err.status;
+  }
+  if (status === 500) {
+    console.error('Unhandled error:', err);
+  }
+  res.status(status).json({
+    success: false,
+    error: err.message || 'Internal server error',
+  });
+});
+
+// 404 handler
+app.use((req: Request, res: Response) => {
+  res.status(404).json({
+    success: false,
+    error: 'Route not found',
+  });
+});
+
+export default app;
@@ -0,0 +1,473 @@
+#!/usr/bin/env node
+/**
+ * RAG Command-Line Interface
+ * Ingest, watch, query, list, delete and export documents in a persisted index
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import dotenv from 'dotenv';
+import { RAGSystem } from './utils/ragSystem.js';
+import { ragConfigFromEnv, indexPathFromEnv } from './utils/config.js';
+import { indexExists } from './utils/indexManifest.js';
+import { loadDocuments, getLoader, SUPPORTED_EXTENSIONS } from './utils/loaders.js';
+import { collectFiles } from './utils/files.js';
+import { isChunkStrategy, resolveChunkOptions, CHUNK_STRATEGIES, ChunkingOptions } from './utils/chunking.js';
+import { hashContent } from './utils/hashing.js';
+import { isContextFormat } from './utils/contextSerializer.js';
+import { validateFilter } from './utils/metadataFilter.js';
+import { toToon } from './utils/toon.js';
+import { logger } from './utils/logger.js';
+import { Document, MetadataFilter, ContextFormat, ChunkStrategy, IndexStats } from './types.js';
+
+const WATCH_DEBOUNCE_MS = 500;
+
+const USAGE = `Usage: rag <command> [options]
+
+Commands:
+  ingest <dir|file|glob>...   Load, chunk and index new or changed files
+  watch <dir>...              Keep directories in sync with the index
+  query "<question>"          Answer a question from the index
+  list                        List indexed sources
+  delete <source>             Remove a source and its chunks
+  export                      Write every indexed chunk as JSON or TOON
+
+Options:
+  --index <path>              Index location (default: $RAG_INDEX_PATH or ./faiss_index)
+  --strategy <name>           Chunking strategy: ${CHUNK_STRATEGIES.join(', ')}
+  --chunk-size <n>            Maximum chunk size
+  --overlap <n>               Chunk overlap
+  --dry-run                   ingest: show chunk counts without indexing
+  --force                     ingest, watch: re-chunk files even if unchanged
+  --filter <json>             query: metadata filter
+  --context-format <format>   query: plain, json or toon
+  --format <json|toon>        export: output format (default json)
+  --out <file>                export: write to a file instead of stdout
+  --verbose                   Show library logging
+  -h, --help                  Show this help
+`;
+
+const OPTIONS = {
+  index: { type: 'string' },
+  strategy: { type: 'string' },
+  'chunk-size': { type: 'string' },
+  overlap: { type: 'string' },
+  'dry-run': { type: 'boolean' },
+  force: { type: 'boolean' },
+  filter: { type: 'string' },
+  'context-format': { type: 'string' },
+  format: { type: 'string' },
+  out: { type: 'string' },
+  verbose: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+type CliValues = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+interface IngestFailure {
+  file: string;
+  error: string;
+}
+
+/**
+ * Parse a non-negative integer option
+ */
+function parseIntOption(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`--${name} must be a non-negative integer`);
+  }
+  return parsed;
+}
+
+/**
+ * Create the RAG system and load the persisted index if there is one
+ */
+async function openIndex(indexPath: string): Promise<RAGSystem> {
+  const ragSystem = new RAGSystem(ragConfigFromEnv());
+  if (indexExists(indexPath)) {
+    await ragSystem.loadVectorStore(indexPath);
+  }
+  return ragSystem;
+}
+
+interface IngestResult {
+  format: string;
+  chunks: number;
+  /**
+   * The file was already indexed with the same contents and chunking
+   */
+  skipped: boolean;
+  stats: IndexStats | null;
+}
+
+/**
+ * Name a file's source by its absolute path, so files with the same name in
+ * different folders stay apart and a file keeps its source whatever directory
+ * the CLI runs from
+ */
+function sourceName(file: string): string {
+  return path.resolve(file).split(path.sep).join('/');
+}
+
+/**
+ * Load, chunk and index one file. Unchanged files are skipped unless forced,
+ * and changed files only embed their new or modified chunks.
+ */
+async function ingestFile(
+  ragSystem: RAGSystem,
+  file: string,
+  values: CliValues,
+  dryRun: boolean
+): Promise<IngestResult> {
+  const loader = getLoader(file);
+  if (!loader) {
+    throw new Error('Unsupported file type');
+  }
+
+  const source = sourceName(file);
+  const buffer = fs.readFileSync(file);
+  const { chunkSize, overlap } = resolveChunkOptions({
+    chunkSize: parseIntOption('chunk-size', values['chunk-size']),
+    overlap: parseIntOption('overlap', values.overlap),
+  });
+  const chunking: ChunkingOptions = {
+    strategy: (values.strategy as ChunkStrategy) ?? loader.defaultStrategy ?? 'paragraph',
+    chunkSize,
+    overlap,
+  };
+
+  if (!values.force && ragSystem.isSourceCurrent(source, hashContent(buffer), chunking)) {
+    const chunks = ragSystem.getSourceDocuments(source).length;
+    return { format: loader.format, chunks, skipped: true, stats: null };
+  }
+
+  if (chunking.strategy === 'semantic') {
+    chunking.embeddingProvider = ragSystem.getEmbeddingGenerator();
+  }
+
+  const documents = await loadDocuments(buffer, source, undefined, chunking);
+  if (documents.length === 0) {
+    throw new Error('No content found');
+  }
+  const withPaths = documents.map(doc => ({ ...doc, metadata: { ...doc.metadata, filePath: file } }));
+
+  const stats = dryRun ? null : await ragSystem.indexDocuments(withPaths);
+  return { format: loader.format, chunks: withPaths.length, skipped: false, stats };
+}
+
+function describeResult(result: IngestResult): string {
+  if (result.skipped) {
+    return `unchanged, ${result.chunks} chunks (${result.format})`;
+  }
+  const { stats } = result;
+  const changes = stats ? `: ${stats.added} new, ${stats.unchanged} unchanged, ${stats.removed} removed` : '';
+  return `${result.chunks} chunks (${result.format})${changes}`;
+}
+
+/**
+ * Remove sources whose files were inside the given directories but no longer exist
+ */
+function pruneMissing(ragSystem: RAGSystem, dirs: string[]): string[] {
+  const pruned: string[] = [];
+  for (const { source } of ragSystem.getSources()) {
+    const filePath = ragSystem.getSourceDocuments(source)[0]?.metadata?.filePath;
+    if (typeof filePath !== 'string' || fs.existsSync(filePath)) continue;
+    if (dirs.some(dir => filePath.startsWith(dir + path.sep))) {
+      ragSystem.deleteSource(source);
+      pruned.push(source);
+    }
+  }
+  return pruned;
+}
+
+async function ingest(inputs: string[], values: CliValues, indexPath: string): Promise<number> {
+  if (inputs.length === 0) {
+    throw new Error('ingest needs at least one file, directory or glob');
+  }
+  if (values.strategy !== undefined && !isChunkStrategy(values.strategy)) {
+    throw new Error(`--strategy must be one of: ${CHUNK_STRATEGIES.join(', ')}`);
+  }
+
+  const { files, unmatched } = collectFiles(inputs, SUPPORTED_EXTENSIONS);
+  unmatched.forEach(input => process.stderr.write(`! Nothing to ingest matches ${input}\n`));
+  if (files.length === 0) {
+    throw new Error(`No supported files found (${SUPPORTED_EXTENSIONS.join(', ')})`);
+  }
+
+  const dryRun = values['dry-run'] === true;
+  const ragSystem = await openIndex(indexPath);
+  const failures: IngestFailure[] = [];
+  const totals: IndexStats = { added: 0, unchanged: 0, removed: 0 };
+  let totalChunks = 0;
+  let skipped = 0;
+
+  process.stdout.write(`${dryRun ? 'Dry run: ' : ''}${files.length} file(s) to ingest\n`);
+
+  for (const [i, file] of files.entries()) {
+    const source = sourceName(file);
+    const progress = `[${i + 1}/${files.length}] ${source}`;
+
+    try {
+      const result = await ingestFile(ragSystem, file, values, dryRun);
+      totalChunks += result.chunks;
+      if (result.skipped) skipped++;
+      if (result.stats) {
+        totals.added += result.stats.added;
+        totals.unchanged += result.stats.unchanged;
+        totals.removed += result.stats.removed;
+      }
+      process.stdout.write(`${progress}  ${describeResult(result)}\n`);
+    } catch (error: any) {
+      failures.push({ file: source, error: error.message || String(error) });
+      process.stdout.write(`${progress}  FAILED: ${error.message || error}\n`);
+    }
+  }
+
+  const succeeded = files.length - failures.length;
+  if (!dryRun && succeeded > skipped) {
+    ragSystem.saveVectorStore(indexPath);
+  }
+
+  process.stdout.write(
+    `\n${dryRun ? 'Would index' : 'Indexed'} ${totalChunks} chunks from ${succeeded} of ${files.length} file(s)` +
+    `${dryRun ? '' : ` into ${indexPath}`}\n`
+  );
+  if (!dryRun) {
+    process.stdout.write(
+      `${skipped} file(s) unchanged; ${totals.added} chunks embedded, ${totals.unchanged} reused, ${totals.removed} removed\n`
+    );
+  }
+
+  if (failures.length > 0) {
+    process.stdout.write(`\n${failures.length} file(s) failed:\n`);
+    failures.forEach(({ file, error }) => process.stdout.write(`  ${file}: ${error}\n`));
+    return 1;
+  }
+  return 0;
+}
+
+/**
+ * Keep directories in sync with the index: ingest new and changed files,
+ * remove sources whose files were deleted, and save after every change
+ */
+async function watch(inputs: string[], values: CliValues, indexPath: string): Promise<number> {
+  const dirs = inputs.map(input => path.resolve(input));
+  if (dirs.length === 0) {
+    throw new Error('watch needs at least one directory');
+  }
+  const notDirectory = dirs.find(dir => !fs.existsSync(dir) || !fs.statSync(dir).isDirectory());
+  if (notDirectory) {
+    throw new Error(`Not a directory: ${notDirectory}`);
+  }
+  if (values.strategy !== undefined && !isChunkStrategy(values.strategy)) {
+    throw new Error(`--strategy must be one of: ${CHUNK_STRATEGIES.join(', ')}`);
+  }
+
+  const ragSystem = await openIndex(indexPath);
+
+  const sync = async (files: string[]) => {
+    let changed = false;
+    for (const file of files) {
+      const stamp = new Date().toLocaleTimeString();
+      try {
+        const result = await ingestFile(ragSystem, file, values, false);
+        changed = changed || !result.skipped;
+        if (!result.skipped) {
+          process.stdout.write(`[${stamp}] ${sourceName(file)}  ${describeResult(result)}\n`);
+        }
+      } catch (error: any) {
+        process.stdout.write(`[${stamp}] ${sourceName(file)}  FAILED: ${error.message || error}\n`);
+      }
+    }
+    for (const source of pruneMissing(ragSystem, dirs)) {
+      process.stdout.write(`[${new Date().toLocaleTimeString()}] ${source}  removed\n`);
+      changed = true;
+    }
+    if (changed) {
+      ragSystem.saveVectorStore(indexPath);
+    }
+  };
+
+  await sync(collectFiles(dirs, SUPPORTED_EXTENSIONS).files);
+  process.stdout.write(`Watching ${dirs.map(sourceName).join(', ') || '.'} (Ctrl+C to stop)\n`);
+
+  // Editors write files in several steps, so collect events briefly before syncing
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+  let running = Promise.resolve();
+
+  const schedule = (file: string) => {
+    pending.add(file);
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      const batch = [...pending].filter(candidate =>
+        fs.existsSync(candidate) &&
+        fs.statSync(candidate).isFile() &&
+        SUPPORTED_EXTENSIONS.includes(path.extname(candidate).toLowerCase()) &&
+        !candidate.split(path.sep).some(part => part.startsWith('.') || part === 'node_modules')
+      );
+      pending.clear();
+      running = running.then(() => sync(batch));
+    }, WATCH_DEBOUNCE_MS);
+  };
+
+  const watchers = dirs.map(dir =>
+    fs.watch(dir, { recursive: true }, (_event, filename) => {
+      if (filename) schedule(path.join(dir, filename.toString()));
+    })
+  );
+
+  return new Promise(resolve => {
+    process.once('SIGINT', async () => {
+      watchers.forEach(watcher => watcher.close());
+      clearTimeout(timer);
+      await running;
+      resolve(0);
+    });
+  });
+}
+
+async function query(args: string[], values: CliValues, indexPath: string): Promise<number> {
+  const question = args.join(' ').trim();
+  if (!question) {
+    throw new Error('query needs a question');
+  }
+
+  const contextFormat = values['context-format'] as ContextFormat | undefined;
+  if (contextFormat !== undefined && !isContextFormat(contextFormat)) {
+    throw new Error('--context-format must be one of: plain, json, toon');
+  }
+
+  let filter: MetadataFilter | undefined;
+  if (values.filter !== undefined) {
+    try {
+      filter = JSON.parse(values.filter);
+    } catch {
+      throw new Error('--filter must be valid JSON');
+    }
+    validateFilter(filter);
+  }
+
+  const ragSystem = await openIndex(indexPath);
+  if (ragSystem.getDocumentCount() === 0) {
+    throw new Error(`The index at ${indexPath} is empty; run "rag ingest" first`);
+  }
+
+  const response = await ragSystem.query(question, { contextFormat, filter });
+
+  process.stdout.write(`${response.answer}\n`);
+  if (response.sources.length > 0) {
+    process.stdout.write('\nSources:\n');
+    response.sources.forEach(source => {
+      process.stdout.write(`  [${source.finalRank}] ${source.citation} (score ${source.scores.rerank.toFixed(3)})\n`);
+    });
+  }
+  return 0;
+}
+
+async function list(indexPath: string): Promise<number> {
+  const sources = (await openIndex(indexPath)).getSources();
+  if (sources.length === 0) {
+    process.stdout.write('No documents indexed\n');
+    return 0;
+  }
+
+  sources.forEach(({ source, chunkCount, pages, uploadedAt }) => {
+    const details = [`${chunkCount} chunks`];
+    if (pages) details.push(`${pages} pages`);
+    if (uploadedAt) details.push(`indexed ${uploadedAt}`);
+    process.stdout.write(`${source}  ${details.join(', ')}\n`);
+  });
+  process.stdout.write(`\n${sources.length} source(s)\n`);
+  return 0;
+}
+
+async function deleteSource(args: string[], indexPath: string): Promise<number> {
+  const [source] = args;
+  if (!source) {
+    throw new Error('delete needs a source name (see "rag list")');
+  }
+
+  const ragSystem = await openIndex(indexPath);
+  const removed = ragSystem.deleteSource(source);
+  if (removed === 0) {
+    process.stdout.write(`Source not found: ${source}\n`);
+    return 1;
+  }
+
+  ragSystem.saveVectorStore(indexPath);
+  process.stdout.write(`Deleted ${removed} chunks of ${source}\n`);
+  return 0;
+}
+
+async function exportDocuments(values: CliValues, indexPath: string): Promise<number> {
+  const format = values.format ?? 'json';
+  if (format !== 'json' && format !== 'toon') {
+    throw new Error('--format must be json or toon');
+  }
+
+  const ragSystem = await openIndex(indexPath);
+  const documents: Document[] = ragSystem.getSources()
+    .flatMap(({ source }) => ragSystem.getSourceDocuments(source));
+  const output = format === 'toon'
+    ? toToon({ documents })
+    : JSON.stringify(documents, null, 2);
+
+  if (values.out) {
+    fs.writeFileSync(values.out, output + '\n');
+    process.stdout.write(`Exported ${documents.length} chunks to ${values.out}\n`);
+  } else {
+    process.stdout.write(output + '\n');
+  }
+  return 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    options: OPTIONS,
+    allowPositionals: true,
+  });
+  const [command, ...args] = positionals;
+
+  if (values.help || !command) {
+    process.stdout.write(USAGE);
+    return command || values.help ? 0 : 1;
+  }
+
+  // Library logs would drown out the CLI's own progress output and failure summary
+  logger.quiet = !values.verbose;
+
+  const indexPath = values.index ? path.resolve(values.index) : indexPathFromEnv();
+
+  switch (command) {
+    case 'ingest':
+      return ingest(args, values, indexPath);
+    case 'watch':
+      return watch(args, values, indexPath);
+    case 'query':
+      return query(args, values, indexPath);
+    case 'list':
+      return list(indexPath);
+    case 'delete':
+      return deleteSource(args, indexPath);
+    case 'export':
+      return exportDocuments(values, indexPath);
+    default:
+      throw new Error(`Unknown command: ${command}\n\n${USAGE}`);
+  }
+}
+
+dotenv.config({ quiet: true });
+
+main(process.argv.slice(2))
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch(error => {
+    process.stderr.write(`Error: ${error.message || error}\n`);
+    process.exitCode = 1;
+  });
@@ -5,13 +5,58 @@
 
 export * from './types';
 export { RAGSystem } from './utils/ragSystem';
-export { EmbeddingGenerator, cosineSimilarity, euclideanDistance } from './utils/embeddings';
-export { FAISSVectorStore } from './utils/vectorStore';
-export { Reranker } from './utils/reranker';
-export { chunkText, chunkBySentences, chunkByParagraphs, chunkWithMetadata } from './utils/chunking';
+export { EmbeddingGenerator, EmbeddingBatchError, cosineSimilarity, euclideanDistance } from './utils/embeddings';
+export { EmbeddingCache } from './utils/embeddingCache';
+export { TokenBucket, withRetry, isRetryableError, mapWithConcurrency, throwIfAborted } from './utils/rateLimit';
+export { JobQueue } from './utils/jobQueue';
+export { CollectionManager, DEFAULT_COLLECTION, isCollectionName } from './utils/collections';
+export { ApiKeyStore, isApiRole, API_ROLES } from './utils/apiKeys';
+export { QuotaTracker } from './utils/quotas';
+export { AuditLog } from './utils/auditLog';
+export { AccessControl } from './utils/auth';
+export { canAccess, aclAllows, parseAcl, applyAcl, isPrincipal } from './utils/acl';
+export { FAISSVectorStore, setDefaultVectorIndexType } from './utils/vectorStore';
+export { Reranker, RERANK_STRATEGIES, isRerankStrategyName, parseJudgeScores } from './utils/reranker';
+export { QUERY_TRANSFORMS, isQueryTransformName, parseQuestionList } from './utils/queryTransforms';
+export {
+  chunkText,
+  chunkBySentences,
+  chunkByParagraphs,
+  chunkRecursively,
+  chunkByMarkdownHeadings,
+  chunkByTokens,
+  chunkSemantically,
+  chunkWithMetadata,
+  getChunker,
+  isChunkStrategy,
+  CHUNK_STRATEGIES,
+} from './utils/chunking';
 export { 
   extractTextFromPDF, 
   pdfToDocuments, 
   pdfBufferToDocuments, 
   processPDFFiles 
 } from './utils/pdfProcessor';
+export { getLoader, loadDocuments, SUPPORTED_EXTENSIONS } from './utils/loaders';
+export { TOON_CONTENT_TYPE, wantsToon, toToon, fromToon, toonResponse, toonBody } from './utils/toon';
+export {
+  getContextSerializer,
+  isContextFormat,
+  CONTEXT_FORMATS,
+  estimateTokens,
+  buildContextTokenReport,
+  formatCitation,
+  DEFAULT_CONTEXT_METADATA_FIELDS,
+} from './utils/contextSerializer';
+export { GeminiEmbeddingProvider, GeminiChatProvider } from './utils/geminiProvider';
+export { LocalEmbeddingProvider, LocalChatProvider } from './utils/localProvider';
+export { createEmbeddingProvider, createChatProvider, isProviderName, PROVIDER_NAMES } from './utils/providers';
+export { tokenize, splitSentences } from './utils/tokenizer';
+export { OpenAIEmbeddingProvider, OpenAIChatProvider } from './utils/openaiProvider';
+export { OllamaEmbeddingProvider, OllamaChatProvider } from './utils/ollamaProvider';
+export { HttpError, RequestTimeoutError } from './utils/httpClient';
+export { resolveEmbeddingDimension } from './utils/embeddingDimensions';
+export { BM25Index, reciprocalRankFusion } from './utils/bm25';
+export { SessionStore } from './utils/sessionStore';
+export { validateFilter, matchesFilter, combineFilters } from './utils/metadataFilter';
+export { Logger, logger } from './utils/logger';
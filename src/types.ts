@@ -8,18 +8,252 @@ export interface Document {
   metadata?: Record<string, any>;
 }
 
+export type RetrieverName = 'vector' | 'keyword';
+
 export interface SearchResult {
   document: Document;
+  /**
+   * Retrieval score after rank fusion (higher is better)
+   */
   score: number;
+  /**
+   * L2 distance from the FAISS index, when the vector retriever found the document
+   */
+  vectorDistance?: number;
+  /**
+   * BM25 score, when the keyword retriever found the document
+   */
+  keywordScore?: number;
+  /**
+   * Which retrievers returned this document
+   */
+  retrievers?: RetrieverName[];
+  /**
+   * The document's embedding as stored in the index, so reranking need not embed it again
+   */
+  embedding?: number[];
+}
+
+/**
+ * Exact nearest-neighbour index by L2 distance, as FAISS IndexFlatL2 provides it.
+ * Vectors are numbered in insertion order; removing some renumbers the rest in order.
+ */
+export interface VectorIndex {
+  add(vector: number[]): void;
+  search(vector: number[], k: number): { distances: number[]; labels: number[] };
+  removeIds(ids: number[]): number;
+  ntotal(): number;
+  getDimension(): number;
+  write(filePath: string): void;
+}
+
+/**
+ * Creates empty vector indexes and reads saved ones
+ */
+export interface VectorIndexType {
+  create(dimension: number): VectorIndex;
+  fromBuffer(buffer: Buffer): VectorIndex;
+}
+
+export type RerankStrategyName = 'embedding' | 'lexical' | 'llm' | 'mmr';
+
+/**
+ * Scores a rerank strategy computed for a document, e.g. `mmr` also reports
+ * the `embedding` similarity it balanced against diversity
+ */
+export type RerankScores = Partial<Record<RerankStrategyName, number>>;
+
+export interface RerankedResult extends SearchResult {
+  /**
+   * Score the documents were ordered by, from the strategy that ranked them
+   */
+  rerankScore: number;
+  rerankStrategy: RerankStrategyName;
+  rerankScores: RerankScores;
+  /**
+   * 1-based rank before reranking
+   */
+  originalRank: number;
+}
+
+export interface SourceScores {
+  retrieval: number;
+  vectorDistance?: number;
+  keywordScore?: number;
+  rerank?: number;
+  rerankStrategy?: RerankStrategyName;
+  rerankScores?: RerankScores;
+}
+
+export interface SourceDocument extends Document {
+  /**
+   * Human-readable citation, e.g. "a.pdf p. 12–13"
+   */
+  citation: string;
+  retrievers: RetrieverName[];
+  scores: SourceScores;
+  /**
+   * 1-based rank from retrieval and after reranking
+   */
+  originalRank: number;
+  finalRank: number;
+}
+
+export type ContextFormat = 'plain' | 'json' | 'toon';
+
+export interface ContextTokenReport {
+  selected: ContextFormat;
+  plain: number;
+  json: number;
+  toon: number;
+  toonSavingsVsJson: number;
 }
 
 export interface RAGResponse {
   question: string;
+  /**
+   * The follow-up question rewritten to stand alone, when chat history was used
+   */
+  standaloneQuestion?: string;
   answer: string;
-  sources: Document[];
+  sources: SourceDocument[];
+  contextTokens?: ContextTokenReport;
+  /**
+   * Queries generated before retrieval, when query transforms were requested
+   */
+  transforms?: QueryTransformReport;
+  usage?: TokenUsage;
+  sessionId?: string;
+  /**
+   * Set when the session expired while the query ran, so the turn was not recorded
+   */
+  sessionExpired?: boolean;
   timestamp: string;
 }
 
+export type QueryTransformName = 'multi-query' | 'hyde' | 'decompose';
+
+export interface QueryExpansion {
+  /**
+   * Alternative wordings searched alongside the question (`multi-query`)
+   */
+  paraphrases?: string[];
+  /**
+   * Generated passage searched alongside the question (`hyde`)
+   */
+  hypotheticalAnswer?: string;
+}
+
+export interface SubQuestion extends QueryExpansion {
+  question: string;
+  answer: string;
+  /**
+   * Citations of the sources the sub-question was answered from
+   */
+  citations: string[];
+}
+
+export interface QueryTransformReport extends QueryExpansion {
+  /**
+   * Parts of a compound question, each answered before the final answer
+   * (`decompose`); the expansions are then reported per sub-question
+   */
+  subQuestions?: SubQuestion[];
+}
+
+export type FilterValue = string | number | boolean | null;
+
+export interface FieldCondition {
+  $eq?: FilterValue;
+  $ne?: FilterValue;
+  $in?: FilterValue[];
+  $nin?: FilterValue[];
+  $gt?: FilterValue;
+  $gte?: FilterValue;
+  $lt?: FilterValue;
+  $lte?: FilterValue;
+  $exists?: boolean;
+}
+
+/**
+ * Filter on metadata fields: a field maps to a value (equality) or a FieldCondition,
+ * and `$and` / `$or` / `$not` combine nested filters
+ */
+export type MetadataFilter = {
+  $and?: MetadataFilter[];
+  $or?: MetadataFilter[];
+  $not?: MetadataFilter;
+} & {
+  [field: string]: FilterValue | FieldCondition | MetadataFilter | MetadataFilter[];
+};
+
+export interface ConversationTurn {
+  question: string;
+  standaloneQuestion?: string;
+  answer: string;
+  sourceIds: string[];
+  timestamp: string;
+}
+
+export interface Session {
+  id: string;
+  /**
+   * API key that created the session; only that key can use it
+   */
+  keyId: string | null;
+  createdAt: string;
+  lastActiveAt: string;
+  expiresAt: string;
+  turns: ConversationTurn[];
+}
+
+export interface QueryOptions {
+  contextFormat?: ContextFormat;
+  history?: ConversationTurn[];
+  filter?: MetadataFilter;
+  /**
+   * Documents retrieved before reranking; the configured topK when unset
+   */
+  topK?: number;
+  rerankTopK?: number;
+  /**
+   * Rewrites of the question to retrieve with; none when unset
+   */
+  transforms?: QueryTransformName[];
+  /**
+   * Who is asking; documents whose ACL excludes every principal of the caller
+   * are never retrieved. Access control is off when unset.
+   */
+  identity?: CallerIdentity;
+  /**
+   * Indexes to search instead of the system's own, e.g. several collections.
+   * Their results are merged, tagged with `metadata.collection`, and reranked together.
+   */
+  searchTargets?: SearchTarget[];
+}
+
+/**
+ * A searchable document index, such as one collection
+ */
+export interface SearchTarget {
+  name: string;
+  search(
+    query: string,
+    topK: number,
+    filter?: MetadataFilter,
+    identity?: CallerIdentity,
+    signal?: AbortSignal
+  ): Promise<SearchResult[]>;
+}
+
+/**
+ * A caller of the RAG system, as the principals (users or groups) it acts for.
+ * Documents with `metadata.acl` are only visible to callers holding one of its principals.
+ */
+export interface CallerIdentity {
+  principals: string[];
+}
+
 export interface EmbeddingRequest {
   texts: string[];
 }
@@ -34,11 +268,345 @@ export interface IndexRequest {
 
 export interface QueryRequest {
   query: string;
+  contextFormat?: ContextFormat;
+  sessionId?: string;
+  filter?: MetadataFilter;
+  /**
+   * Collections to search together; only the addressed collection when unset
+   */
+  collections?: string[];
+  transforms?: QueryTransformName[];
+}
+
+export interface CollectionConfig {
+  name: string;
+  description: string;
+  /**
+   * Retrieval settings for queries; null uses the server defaults
+   */
+  topK: number | null;
+  rerankTopK: number | null;
+  /**
+   * Chunking for uploads that do not choose their own; null uses the file type's default
+   */
+  chunkStrategy: ChunkStrategy | null;
+  chunkSize: number | null;
+  chunkOverlap: number | null;
+  createdAt: string;
 }
 
+export interface CollectionSummary extends CollectionConfig {
+  documentCount: number;
+  sourceCount: number;
+  indexPath: string;
+}
+
+export interface SourceSummary {
+  source: string;
+  chunkCount: number;
+  pages: number | null;
+  title: string | null;
+  uploadedAt: string | null;
+  fileHash: string | null;
+}
+
+export interface IndexStats {
+  /**
+   * Chunks embedded and added
+   */
+  added: number;
+  /**
+   * Chunks whose content was already indexed, kept without embedding again
+   */
+  unchanged: number;
+  /**
+   * Chunks that disappeared from their source and were removed
+   */
+  removed: number;
+}
+
+export type ChunkStrategy = 'fixed' | 'sentence' | 'paragraph' | 'recursive' | 'markdown' | 'token' | 'semantic';
+
 export interface PDFUploadResponse {
   filename: string;
   pages: number;
   documentsCreated: number;
+  chunkStrategy: ChunkStrategy;
+  chunkSize: number;
+  chunkOverlap: number;
+  /**
+   * True when the file was already indexed with the same content and chunking
+   */
+  skipped: boolean;
+  indexStats: IndexStats;
+  success: boolean;
+}
+
+export interface IndexFileEntry {
+  /**
+   * File name, relative to the manifest's directory
+   */
+  file: string;
+  sha256: string;
+  bytes: number;
+}
+
+/**
+ * Describes a saved index: what embedded it and which files belong to it
+ */
+export interface IndexManifest {
+  formatVersion: number;
+  /**
+   * Incremented on every save; data files are named after it
+   */
+  generation: number;
+  savedAt: string;
+  embeddingModel: string;
+  dimension: number;
+  documentCount: number;
+  /**
+   * Chunking settings in use, with how many documents were chunked with each
+   */
+  chunking: Array<{
+    strategy: ChunkStrategy | null;
+    chunkSize: number | null;
+    chunkOverlap: number | null;
+    documents: number;
+  }>;
+  files: {
+    vectors: IndexFileEntry;
+    documents: IndexFileEntry;
+    keywords: IndexFileEntry;
+  };
+}
+
+/**
+ * What to do when a saved index was built with a different embedding model or dimension:
+ * refuse to load it, or re-embed its documents with the current model
+ */
+export type IndexMismatchPolicy = 'error' | 'reembed';
+
+export type DocumentFormat = 'pdf' | 'markdown' | 'html' | 'docx' | 'text' | 'csv' | 'json';
+
+export interface DocumentUploadResponse {
+  filename: string;
+  format: DocumentFormat;
+  documentsCreated: number;
+  /**
+   * Null for formats indexed one record per document (CSV, JSON)
+   */
+  chunkStrategy: ChunkStrategy | null;
+  chunkSize: number | null;
+  chunkOverlap: number | null;
+  skipped: boolean;
+  indexStats: IndexStats;
   success: boolean;
 }
+
+export interface EmbeddingCacheStats {
+  hits: number;
+  memoryHits: number;
+  diskHits: number;
+  misses: number;
+  hitRate: number;
+  memoryEntries: number;
+  maxMemoryEntries: number;
+  diskEntries: number;
+  filePath: string | null;
+}
+
+/**
+ * A text that could not be embedded, by its position in the request
+ */
+export interface EmbeddingFailure {
+  index: number;
+  /**
+   * Document id, when the text is a chunk being indexed
+   */
+  id?: string;
+  error: string;
+}
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type JobStage = 'queued' | 'extracting' | 'chunking' | 'embedding' | 'indexing' | 'done';
+
+export interface JobProgress {
+  stage: JobStage;
+  /**
+   * Characters of text extracted, once known
+   */
+  characters: number | null;
+  pages: number | null;
+  chunks: number | null;
+  /**
+   * Chunks embedded so far, counting chunks reused from the index or the embedding cache
+   */
+  embedded: number;
+  toEmbed: number | null;
+  percent: number;
+}
+
+export interface IngestionJob {
+  id: string;
+  collection: string;
+  filename: string;
+  format: DocumentFormat;
+  /**
+   * API key that uploaded the file
+   */
+  keyId: string | null;
+  /**
+   * Principals allowed to see the uploaded documents, and so the job; null when everyone may
+   */
+  acl: string[] | null;
+  status: JobStatus;
+  progress: JobProgress;
+  result: DocumentUploadResponse | PDFUploadResponse | null;
+  error: string | null;
+  failedChunks?: EmbeddingFailure[];
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export interface ExtractionInfo {
+  characters: number;
+  pages?: number;
+}
+
+/**
+ * Progress hook for extracting and chunking a file
+ */
+export interface ExtractionHooks {
+  /**
+   * Called once the text is extracted, before it is chunked
+   */
+  onExtracted?: (info: ExtractionInfo) => void;
+}
+
+/**
+ * Progress and cancellation for embedding many texts
+ */
+export interface EmbeddingBatchOptions {
+  signal?: AbortSignal;
+  onProgress?: (embedded: number, total: number) => void;
+}
+
+export type ProviderName = 'gemini' | 'local' | 'openai' | 'ollama';
+
+export interface EmbeddingProvider {
+  generateEmbedding(text: string): Promise<number[]>;
+  generateEmbeddings(texts: string[], options?: EmbeddingBatchOptions): Promise<number[][]>;
+  getDimension(): number;
+  getModelName(): string;
+}
+
+export interface ChatRequest {
+  prompt: string;
+  /**
+   * The raw question and context passages behind the prompt, for providers
+   * that answer extractively instead of following the prompt
+   */
+  question?: string;
+  passages?: string[];
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  /**
+   * True when the counts were approximated locally rather than reported by the provider
+   */
+  estimated: boolean;
+}
+
+export interface ChatStreamChunk {
+  text?: string;
+  usage?: TokenUsage;
+}
+
+export interface ChatProvider {
+  generate(request: ChatRequest, signal?: AbortSignal): Promise<string>;
+  /**
+   * Stream the answer as it is generated. Providers without native
+   * streaming may omit this and the full answer is sent as one delta.
+   */
+  generateStream?(request: ChatRequest, signal?: AbortSignal): AsyncIterable<ChatStreamChunk>;
+  getModelName(): string;
+}
+
+export interface QueryTiming {
+  retrievalMs: number;
+  firstTokenMs: number | null;
+  generationMs: number;
+  totalMs: number;
+}
+
+export type QueryStreamEvent =
+  | {
+    type: 'sources';
+    question: string;
+    standaloneQuestion?: string;
+    sources: SourceDocument[];
+    contextTokens: ContextTokenReport;
+    transforms?: QueryTransformReport;
+  }
+  | { type: 'token'; delta: string }
+  | { type: 'done'; answer: string; timing: QueryTiming; usage: TokenUsage; timestamp: string };
+
+export type ApiRole = 'reader' | 'writer' | 'admin';
+
+/**
+ * A role granted to an API key. Each role includes the ones below it:
+ * readers query and list, writers also upload and delete, admins also
+ * clear, save, load and manage collections.
+ */
+export interface ApiKeyGrant {
+  role: ApiRole;
+  /**
+   * Collections the role applies to; every collection when omitted or `["*"]`
+   */
+  collections?: string[];
+  /**
+   * Source names the role is limited to within those collections; every source when omitted
+   */
+  sources?: string[];
+}
+
+export interface ApiKeyQuota {
+  requestsPerMinute?: number;
+  /**
+   * Prompt and completion tokens per UTC day across all queries
+   */
+  tokensPerDay?: number;
+}
+
+export interface ApiKeyConfig {
+  /**
+   * Name used in logs and the audit log; never the key itself
+   */
+  id: string;
+  /**
+   * The key in plain text, or its SHA-256 hex digest in `keyHash`
+   */
+  key?: string;
+  keyHash?: string;
+  grants: ApiKeyGrant[];
+  /**
+   * Users or groups the key acts for, matched against document ACLs
+   */
+  principals?: string[];
+  quota?: ApiKeyQuota;
+  disabled?: boolean;
+}
+
+export interface AuditEntry {
+  timestamp: string;
+  keyId: string | null;
+  method: string;
+  path: string;
+  status: number;
+  reason: string;
+  ip: string | null;
+}
@@ -0,0 +1,83 @@
+/**
+ * Document Access Control
+ * Documents may list the principals (users or groups, e.g. `user:alice`,
+ * `group:hr`) allowed to retrieve them in `metadata.acl`. Documents without an
+ * ACL are visible to everyone.
+ */
+
+import { CallerIdentity, Document } from '../types.js';
+
+const PRINCIPAL_PATTERN = /^[^\s,]{1,200}$/;
+
+/**
+ * Check whether a string is a valid principal: no whitespace or commas, at most 200 characters
+ */
+export function isPrincipal(value: unknown): value is string {
+  return typeof value === 'string' && PRINCIPAL_PATTERN.test(value);
+}
+
+/**
+ * Check whether a caller may retrieve a document. Without an identity, access
+ * control is off and every document is visible.
+ */
+export function canAccess(doc: Document, identity?: CallerIdentity): boolean {
+  return aclAllows(doc.metadata?.acl, identity);
+}
+
+/**
+ * Check whether an ACL lets a caller in; an empty or missing ACL lets everyone in
+ */
+export function aclAllows(acl: unknown, identity?: CallerIdentity): boolean {
+  if (!identity || !Array.isArray(acl) || acl.length === 0) {
+    return true;
+  }
+  return acl.some(principal => identity.principals.includes(principal));
+}
+
+/**
+ * Read an ACL given as an array of principals, a JSON array, or a comma-separated list.
+ * Returns undefined when none is given, or an error message when it is invalid.
+ */
+export function parseAcl(value: unknown): string[] | undefined | { error: string } {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  let principals: unknown = value;
+  if (typeof value === 'string') {
+    const text = value.trim();
+    if (text.startsWith('[')) {
+      try {
+        principals = JSON.parse(text);
+      } catch {
+        return { error: 'acl must be a JSON array or a comma-separated list of principals' };
+      }
+    } else {
+      principals = text.split(',').map(principal => principal.trim()).filter(Boolean);
+    }
+  }
+
+  if (!Array.isArray(principals) || !principals.every(isPrincipal)) {
+    return { error: 'acl must list principals without whitespace or commas, e.g. ["user:alice", "group:hr"]' };
+  }
+  return principals.length > 0 ? [...new Set(principals)] : undefined;
+}
+
+/**
+ * Check whether two ACLs grant the same principals; a missing ACL equals an empty one
+ */
+export function sameAcl(a?: string[], b?: string[]): boolean {
+  const left = new Set(a || []);
+  const right = new Set(b || []);
+  return left.size === right.size && [...left].every(principal => right.has(principal));
+}
+
+/**
+ * Set the ACL of every document, or leave them visible to everyone when none is given
+ */
+export function applyAcl(documents: Document[], acl?: string[]): Document[] {
+  if (!acl) {
+    return documents;
+  }
+  return documents.map(doc => ({ ...doc, metadata: { ...doc.metadata, acl } }));
+}
@@ -0,0 +1,167 @@
+/**
+ * API Key Store
+ * Loads API keys and their role grants from a JSON file
+ * (`{ "keys": [{ "id", "keyHash" | "key", "grants", "quota" }] }`)
+ * and answers what a key may do in each collection
+ */
+
+import * as fs from 'fs';
+import { ApiKeyConfig, ApiKeyGrant, ApiRole } from '../types.js';
+import { hashContent } from './hashing.js';
+import { isPrincipal } from './acl.js';
+
+export const API_ROLES: ApiRole[] = ['reader', 'writer', 'admin'];
+
+const ROLE_RANK: Record<ApiRole, number> = {
+  reader: 1,
+  writer: 2,
+  admin: 3,
+};
+
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * Check whether a string is a known role name
+ */
+export function isApiRole(value: unknown): value is ApiRole {
+  return typeof value === 'string' && (API_ROLES as string[]).includes(value);
+}
+
+function grantCovers(grant: ApiKeyGrant, role: ApiRole, collection?: string): boolean {
+  if (ROLE_RANK[grant.role] < ROLE_RANK[role]) {
+    return false;
+  }
+  // Without a collection the grant must cover every collection (e.g. creating one)
+  const collections = grant.collections || ['*'];
+  return collections.includes('*') || (collection !== undefined && collections.includes(collection));
+}
+
+function validateKey(entry: any, index: number): ApiKeyConfig {
+  const at = `keys[${index}]`;
+  if (typeof entry?.id !== 'string' || entry.id.length === 0) {
+    throw new Error(`${at}.id must be a non-empty string`);
+  }
+  if (entry.keyHash !== undefined && !(typeof entry.keyHash === 'string' && SHA256_PATTERN.test(entry.keyHash))) {
+    throw new Error(`${at}.keyHash must be a lowercase SHA-256 hex digest`);
+  }
+  if (entry.key !== undefined && !(typeof entry.key === 'string' && entry.key.length > 0)) {
+    throw new Error(`${at}.key must be a non-empty string`);
+  }
+  if ((entry.key === undefined) === (entry.keyHash === undefined)) {
+    throw new Error(`${at} must have exactly one of key and keyHash`);
+  }
+  if (!Array.isArray(entry.grants) || entry.grants.length === 0) {
+    throw new Error(`${at}.grants must be a non-empty array`);
+  }
+
+  entry.grants.forEach((grant: any, i: number) => {
+    if (!isApiRole(grant?.role)) {
+      throw new Error(`${at}.grants[${i}].role must be one of: ${API_ROLES.join(', ')}`);
+    }
+    for (const field of ['collections', 'sources']) {
+      const value = grant[field];
+      if (value !== undefined && !(Array.isArray(value) && value.every(item => typeof item === 'string'))) {
+        throw new Error(`${at}.grants[${i}].${field} must be an array of strings`);
+      }
+    }
+  });
+
+  if (entry.principals !== undefined && !(Array.isArray(entry.principals) && entry.principals.every(isPrincipal))) {
+    throw new Error(`${at}.principals must be an array of principals without whitespace or commas`);
+  }
+
+  for (const field of ['requestsPerMinute', 'tokensPerDay']) {
+    const value = entry.quota?.[field];
+    if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+      throw new Error(`${at}.quota.${field} must be a positive integer`);
+    }
+  }
+  return entry;
+}
+
+export class ApiKeyStore {
+  // Keys by the SHA-256 of the key, so plain-text keys are not kept around
+  private keys: Map<string, ApiKeyConfig> = new Map();
+
+  constructor(keys: ApiKeyConfig[] = []) {
+    keys.forEach((entry, index) => {
+      const config = validateKey(entry, index);
+      const hash = config.keyHash || hashContent(config.key);
+      if (this.keys.has(hash)) {
+        throw new Error(`keys[${index}] (${config.id}) duplicates another key`);
+      }
+      const { key, ...stored } = config;
+      this.keys.set(hash, { ...stored, keyHash: hash });
+    });
+  }
+
+  /**
+   * Load keys from a JSON file
+   */
+  static fromFile(filePath: string): ApiKeyStore {
+    let contents: any;
+    try {
+      contents = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error: any) {
+      throw new Error(`Invalid API key file ${filePath}: ${error.message}`);
+    }
+    if (!Array.isArray(contents?.keys)) {
+      throw new Error(`Invalid API key file ${filePath}: "keys" must be an array`);
+    }
+
+    try {
+      return new ApiKeyStore(contents.keys);
+    } catch (error: any) {
+      throw new Error(`Invalid API key file ${filePath}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Find the enabled key matching a presented key
+   */
+  find(presentedKey: string): ApiKeyConfig | undefined {
+    const key = this.keys.get(hashContent(presentedKey));
+    return key && !key.disabled ? key : undefined;
+  }
+
+  get size(): number {
+    return this.keys.size;
+  }
+
+  /**
+   * Check whether a key holds a role in a collection (or in every collection
+   * when none is given). Source-limited grants count only when `source` is
+   * one of their sources; pass no source to ask about the collection as a whole.
+   */
+  can(key: ApiKeyConfig, role: ApiRole, collection?: string, source?: string): boolean {
+    return key.grants.some(grant =>
+      grantCovers(grant, role, collection) &&
+      (!grant.sources || (source !== undefined && grant.sources.includes(source)))
+    );
+  }
+
+  /**
+   * Check whether a key holds a role anywhere in a collection, including on some of its sources
+   */
+  canAny(key: ApiKeyConfig, role: ApiRole, collection: string): boolean {
+    return key.grants.some(grant => grantCovers(grant, role, collection));
+  }
+
+  /**
+   * Sources a key may use with a role in a collection: null for every source,
+   * otherwise the union of its source-limited grants (empty when it has none)
+   */
+  sourceScope(key: ApiKeyConfig, role: ApiRole, collection: string): string[] | null {
+    const sources = new Set<string>();
+    for (const grant of key.grants) {
+      if (!grantCovers(grant, role, collection)) {
+        continue;
+      }
+      if (!grant.sources) {
+        return null;
+      }
+      grant.sources.forEach(source => sources.add(source));
+    }
+    return [...sources];
+  }
+}
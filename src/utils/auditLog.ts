@@ -0,0 +1,39 @@
+/**
+ * Audit Log
+ * Appends rejected requests to a JSON Lines file
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AuditEntry } from '../types.js';
+import { logger } from './logger.js';
+
+export class AuditLog {
+  private filePath?: string;
+
+  /**
+   * @param filePath JSON Lines file to append to; entries only go to the console when omitted
+   */
+  constructor(filePath?: string) {
+    this.filePath = filePath;
+    if (this.filePath) {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    }
+  }
+
+  record(entry: Omit<AuditEntry, 'timestamp'>): void {
+    const line: AuditEntry = { timestamp: new Date().toISOString(), ...entry };
+    logger.warn(
+      `Rejected ${line.method} ${line.path} (${line.status}) for ${line.keyId ?? 'anonymous'}: ${line.reason}`
+    );
+    if (!this.filePath) {
+      return;
+    }
+
+    try {
+      fs.appendFileSync(this.filePath, JSON.stringify(line) + '\n');
+    } catch (error) {
+      logger.error('Error writing audit log:', error);
+    }
+  }
+}
@@ -0,0 +1,235 @@
+/**
+ * API Authentication and Authorization
+ * Express middleware that identifies the API key of each request, applies its
+ * quotas and checks its roles. Rejections are written to the audit log.
+ * Without a key store every request is allowed, as before keys existed.
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ApiKeyConfig, ApiRole, CallerIdentity, MetadataFilter, TokenUsage } from '../types.js';
+import { ApiKeyStore } from './apiKeys.js';
+import { QuotaTracker, QuotaCheck } from './quotas.js';
+import { AuditLog } from './auditLog.js';
+
+interface AccessControlOptions {
+  /**
+   * Accepted keys; authentication is off when omitted
+   */
+  keys?: ApiKeyStore;
+  audit?: AuditLog;
+}
+
+/**
+ * Read the key from `Authorization: Bearer <key>` or `X-API-Key: <key>`
+ */
+function presentedKey(req: Request): string | undefined {
+  const authorization = req.get('authorization');
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    return authorization.slice(7).trim() || undefined;
+  }
+  return req.get('x-api-key')?.trim() || undefined;
+}
+
+export class AccessControl {
+  private keys?: ApiKeyStore;
+  private quotas = new QuotaTracker();
+  private audit: AuditLog;
+
+  constructor(options: AccessControlOptions = {}) {
+    this.keys = options.keys;
+    this.audit = options.audit || new AuditLog();
+  }
+
+  get enabled(): boolean {
+    return this.keys !== undefined;
+  }
+
+  /**
+   * Middleware that identifies the request's key (as `res.locals.apiKey`) and
+   * counts the request against its per-minute quota
+   */
+  authenticate(): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+      if (!this.keys) {
+        return next();
+      }
+
+      const presented = presentedKey(req);
+      if (!presented) {
+        return this.reject(req, res, 401, 'Missing API key');
+      }
+
+      const key = this.keys.find(presented);
+      if (!key) {
+        return this.reject(req, res, 401, 'Invalid API key');
+      }
+      res.locals.apiKey = key;
+
+      const check = this.quotas.takeRequest(key.id, key.quota);
+      if (!check.allowed) {
+        return this.rejectQuota(req, res, check);
+      }
+      next();
+    };
+  }
+
+  /**
+   * Middleware that requires a role on the whole of a collection: by default the
+   * collection resolved for the route (`res.locals.collection`), otherwise every collection.
+   * Grants limited to some sources do not count.
+   */
+  require(role: ApiRole, collectionOf?: (req: Request, res: Response) => string | undefined): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+      const collection = collectionOf ? collectionOf(req, res) : res.locals.collection?.config.name;
+      if (!this.allows(res, role, collection)) {
+        return this.forbid(req, res, role, collection);
+      }
+      next();
+    };
+  }
+
+  /**
+   * Middleware that requires a role on all or some sources of a collection, by
+   * default the route's. Routes using it must check each source they touch.
+   */
+  requireSources(role: ApiRole, collectionOf?: (req: Request, res: Response) => string): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+      const collection: string = collectionOf ? collectionOf(req, res) : res.locals.collection.config.name;
+      if (!this.allowsSources(res, role, collection)) {
+        return this.forbid(req, res, role, collection);
+      }
+      next();
+    };
+  }
+
+  /**
+   * Check whether the request's key holds a role on every source of a
+   * collection, or in every collection when none is given
+   */
+  allows(res: Response, role: ApiRole, collection?: string): boolean {
+    const key: ApiKeyConfig | undefined = res.locals.apiKey;
+    if (!this.keys || !key) {
+      return !this.keys;
+    }
+    return this.keys.can(key, role, collection);
+  }
+
+  /**
+   * Check whether the request's key holds a role in a collection, on all or some of its sources
+   */
+  allowsSources(res: Response, role: ApiRole, collection: string): boolean {
+    const key: ApiKeyConfig | undefined = res.locals.apiKey;
+    if (!this.keys || !key) {
+      return !this.keys;
+    }
+    return this.keys.canAny(key, role, collection);
+  }
+
+  /**
+   * Check whether the request's key holds a role for one source of a collection
+   */
+  allowsSource(res: Response, role: ApiRole, collection: string, source: string): boolean {
+    const key: ApiKeyConfig | undefined = res.locals.apiKey;
+    if (!this.keys || !key) {
+      return !this.keys;
+    }
+    return this.keys.can(key, role, collection, source);
+  }
+
+  /**
+   * Sources of a collection the request's key may use with a role, or null for all of them
+   */
+  sourceScope(res: Response, role: ApiRole, collection: string): string[] | null {
+    const key: ApiKeyConfig | undefined = res.locals.apiKey;
+    if (!this.keys || !key) {
+      return null;
+    }
+    return this.keys.sourceScope(key, role, collection);
+  }
+
+  /**
+   * Identity of the request's key for document ACLs: its id as `key:<id>` and
+   * its principals. Undefined when authentication is off, so every document is visible.
+   */
+  identity(res: Response): CallerIdentity | undefined {
+    const key: ApiKeyConfig | undefined = res.locals.apiKey;
+    if (!this.keys || !key) {
+      return undefined;
+    }
+    return { principals: [`key:${key.id}`, ...(key.principals || [])] };
+  }
+
+  /**
+   * Metadata filter limiting retrieval to the sources a key may read, or undefined for all
+   */
+  sourceFilter(res: Response, collection: string): MetadataFilter | undefined {
+    const sources = this.sourceScope(res, 'reader', collection);
+    return sources ? { source: { $in: sources } } : undefined;
+  }
+
+  /**
+   * Check that the request's key has tokens left today, rejecting the request if not
+   */
+  checkTokens(req: Request, res: Response): boolean {
+    const key: ApiKeyConfig | undefined = res.locals.apiKey;
+    if (!key) {
+      return true;
+    }
+
+    const check = this.quotas.checkTokens(key.id, key.quota);
+    if (!check.allowed) {
+      this.rejectQuota(req, res, check);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Count a query's tokens against the request's key
+   */
+  recordUsage(res: Response, usage?: TokenUsage): void {
+    const key: ApiKeyConfig | undefined = res.locals.apiKey;
+    if (key && usage) {
+      this.quotas.recordTokens(key.id, usage.promptTokens + usage.completionTokens);
+    }
+  }
+
+  /**
+   * Requests this minute and tokens today for the request's key
+   */
+  getUsage(res: Response): { requestsThisMinute: number; tokensToday: number } | null {
+    const key: ApiKeyConfig | undefined = res.locals.apiKey;
+    return key ? this.quotas.getUsage(key.id) : null;
+  }
+
+  /**
+   * Reject a request for lacking a role
+   */
+  forbid(req: Request, res: Response, role: ApiRole, collection?: string, source?: string): void {
+    const scope = source !== undefined
+      ? ` for ${source} in collection ${collection}`
+      : collection !== undefined ? ` in collection ${collection}` : ' in every collection';
+    this.reject(req, res, 403, `Requires the ${role} role${scope}`);
+  }
+
+  private rejectQuota(req: Request, res: Response, check: QuotaCheck): void {
+    res.setHeader('Retry-After', String(check.retryAfterSeconds));
+    this.reject(req, res, 429, check.reason);
+  }
+
+  private reject(req: Request, res: Response, status: number, reason: string): void {
+    const key: ApiKeyConfig | undefined = res.locals.apiKey;
+    this.audit.record({
+      keyId: key?.id ?? null,
+      method: req.method,
+      path: req.originalUrl,
+      status,
+      reason,
+      ip: req.ip ?? null,
+    });
+    res.status(status).json({
+      success: false,
+      error: reason,
+    });
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * BM25 Keyword Index
+ * In-process inverted index for exact term matching (identifiers, codes, part numbers)
+ */
+
+import { tokenize } from './tokenizer.js';
+
+const K1 = 1.2;
+const B = 0.75;
+
+export interface BM25Snapshot {
+  docLengths: number[];
+  postings: Record<string, Array<[number, number]>>;
+}
+
+export class BM25Index {
+  // term -> (document position -> term frequency)
+  private postings: Map<string, Map<number, number>> = new Map();
+  private docLengths: number[] = [];
+  private totalLength: number = 0;
+
+  /**
+   * Add a document; positions follow insertion order
+   */
+  add(text: string): number {
+    const position = this.docLengths.length;
+    const terms = tokenize(text);
+
+    for (const term of terms) {
+      let docs = this.postings.get(term);
+      if (!docs) {
+        docs = new Map();
+        this.postings.set(term, docs);
+      }
+      docs.set(position, (docs.get(position) || 0) + 1);
+    }
+
+    this.docLengths.push(terms.length);
+    this.totalLength += terms.length;
+    return position;
+  }
+
+  /**
+   * Score documents against a query, best first. Only documents passing
+   * `accept` are returned. When `visible` is given, the corpus statistics
+   * (document count, average length and document frequencies) count only the
+   * documents it passes, so the others cannot change any score.
+   */
+  search(
+    query: string,
+    topK: number,
+    accept?: (position: number) => boolean,
+    visible?: (position: number) => boolean
+  ): Array<{ position: number; score: number }> {
+    let documentCount = this.docLengths.length;
+    let totalLength = this.totalLength;
+    if (visible) {
+      documentCount = 0;
+      totalLength = 0;
+      this.docLengths.forEach((length, position) => {
+        if (!visible(position)) return;
+        documentCount++;
+        totalLength += length;
+      });
+    }
+    if (documentCount === 0) {
+      return [];
+    }
+
+    const averageLength = totalLength / documentCount || 1;
+    const scores = new Map<number, number>();
+
+    for (const term of new Set(tokenize(query))) {
+      const docs = this.postings.get(term);
+      if (!docs) continue;
+
+      let docFrequency = docs.size;
+      if (visible) {
+        docFrequency = 0;
+        for (const position of docs.keys()) {
+          if (visible(position)) docFrequency++;
+        }
+      }
+
+      const idf = Math.log(1 + (documentCount - docFrequency + 0.5) / (docFrequency + 0.5));
+      for (const [position, frequency] of docs) {
+        if ((accept && !accept(position)) || (visible && !visible(position))) continue;
+        const lengthNorm = 1 - B + B * (this.docLengths[position] / averageLength);
+        const termScore = idf * (frequency * (K1 + 1)) / (frequency + K1 * lengthNorm);
+        scores.set(position, (scores.get(position) || 0) + termScore);
+      }
+    }
+
+    return [...scores.entries()]
+      .map(([position, score]) => ({ position, score }))
+      .sort((a, b) => b.score - a.score || a.position - b.position)
+      .slice(0, topK);
+  }
+
+  /**
+   * Get the number of indexed documents
+   */
+  size(): number {
+    return this.docLengths.length;
+  }
+
+  /**
+   * Remove all documents
+   */
+  clear(): void {
+    this.postings = new Map();
+    this.docLengths = [];
+    this.totalLength = 0;
+  }
+
+  /**
+   * Serialize the index for persistence
+   */
+  toJSON(): BM25Snapshot {
+    const postings: BM25Snapshot['postings'] = {};
+    for (const [term, docs] of this.postings) {
+      postings[term] = [...docs.entries()];
+    }
+    return { docLengths: [...this.docLengths], postings };
+  }
+
+  /**
+   * Restore an index from a snapshot
+   */
+  static fromJSON(snapshot: BM25Snapshot): BM25Index {
+    const index = new BM25Index();
+    index.docLengths = [...snapshot.docLengths];
+    index.totalLength = snapshot.docLengths.reduce((sum, length) => sum + length, 0);
+    for (const [term, docs] of Object.entries(snapshot.postings)) {
+      index.postings.set(term, new Map(docs));
+    }
+    return index;
+  }
+
+  /**
+   * Build an index from texts in order
+   */
+  static fromTexts(texts: string[]): BM25Index {
+    const index = new BM25Index();
+    texts.forEach(text => index.add(text));
+    return index;
+  }
+}
+
+/**
+ * Combine ranked lists by weighted reciprocal rank fusion.
+ * Each list contributes weight / (k + rank) for every item it contains.
+ */
+export function reciprocalRankFusion<T>(
+  lists: Array<{ items: T[]; weight: number }>,
+  k: number = 60
+): Array<{ item: T; score: number }> {
+  const fused = new Map<T, number>();
+
+  for (const { items, weight } of lists) {
+    if (weight <= 0) continue;
+    items.forEach((item, rank) => {
+      fused.set(item, (fused.get(item) || 0) + weight / (k + rank + 1));
+    });
+  }
+
+  return [...fused.entries()]
+    .map(([item, score]) => ({ item, score }))
+    .sort((a, b) => b.score - a.score);
+}
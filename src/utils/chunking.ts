@@ -1,74 +1,395 @@
 /**
  * Document Chunking Utilities
  * Breaks down text into smaller, manageable chunks
+ *
+ * Every strategy works on character spans of the source text, so chunks are
+ * exact substrings with known offsets. All strategies honor `overlap`, and
+ * `chunkSize` is a hard maximum: units larger than it are split further.
  */
 
-interface ChunkOptions {
+import { ChunkStrategy, EmbeddingProvider } from '../types.js';
+import { tokenSpans } from './tokenizer.js';
+import { cosineSimilarity } from './embeddings.js';
+
+export interface ChunkOptions {
+  /**
+   * Maximum chunk size, in characters (in tokens for the `token` strategy)
+   */
   chunkSize?: number;
+  /**
+   * Amount of text repeated at the start of the next chunk, in the same unit
+   */
   overlap?: number;
 }
 
-const DEFAULT_CHUNK_SIZE = 1000;
-const DEFAULT_OVERLAP = 200;
+export interface SemanticChunkOptions extends ChunkOptions {
+  /**
+   * Embeds sentences for the `semantic` strategy
+   */
+  embeddingProvider?: EmbeddingProvider;
+  /**
+   * Chunks are not closed at a breakpoint until they reach this many characters
+   */
+  minChunkSize?: number;
+  /**
+   * Adjacent sentences whose similarity is at or below this percentile (0-100) of all
+   * adjacent similarities start a new chunk
+   */
+  breakpointPercentile?: number;
+}
+
+export interface ChunkingOptions extends SemanticChunkOptions {
+  strategy?: ChunkStrategy;
+}
+
+export interface ChunkSpan {
+  start: number;
+  end: number;
+}
+
+export type Chunker = (text: string, options?: SemanticChunkOptions) => ChunkSpan[] | Promise<ChunkSpan[]>;
+
+type SpanChunker = (text: string, options?: ChunkOptions) => ChunkSpan[];
+
+export const DEFAULT_CHUNK_SIZE = 1000;
+export const DEFAULT_OVERLAP = 200;
+export const DEFAULT_MIN_CHUNK_SIZE = 200;
+export const DEFAULT_BREAKPOINT_PERCENTILE = 25;
+const DEFAULT_STRATEGY: ChunkStrategy = 'paragraph';
+
+// Separators tried in order when a unit is larger than the chunk size
+const RECURSIVE_SEPARATORS = ['\n\n', '\n', '. ', ' '];
 
 /**
- * Split text into overlapping chunks
+ * Resolve chunk size and overlap, keeping overlap smaller than the chunk size
  */
-export function chunkText(
-  text: string,
-  options: ChunkOptions = {}
-): string[] {
-  const chunkSize = options.chunkSize || DEFAULT_CHUNK_SIZE;
-  const overlap = options.overlap || DEFAULT_OVERLAP;
+export function resolveChunkOptions(options: ChunkOptions): { chunkSize: number; overlap: number } {
+  const chunkSize = Math.max(1, Math.floor(options.chunkSize ?? DEFAULT_CHUNK_SIZE));
+  const overlap = Math.max(0, Math.floor(options.overlap ?? DEFAULT_OVERLAP));
+  return { chunkSize, overlap: Math.min(overlap, chunkSize - 1) };
+}
+
+/**
+ * Shrink a span to exclude surrounding whitespace; returns null if nothing is left
+ */
+function trimSpan(text: string, span: ChunkSpan): ChunkSpan | null {
+  let { start, end } = span;
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return start < end ? { start, end } : null;
+}
+
+function trimSpans(text: string, spans: ChunkSpan[]): ChunkSpan[] {
+  return spans
+    .map(span => trimSpan(text, span))
+    .filter((span): span is ChunkSpan => span !== null);
+}
 
-  if (text.length <= chunkSize) {
-    return [text];
+/**
+ * Slide a fixed-size window over a span
+ */
+function fixedWindows(span: ChunkSpan, chunkSize: number, overlap: number): ChunkSpan[] {
+  if (span.end - span.start <= chunkSize) {
+    return [span];
   }
 
-  const chunks: string[] = [];
-  let start = 0;
+  const windows: ChunkSpan[] = [];
+  const step = chunkSize - overlap;
+  for (let start = span.start; start < span.end; start += step) {
+    const end = Math.min(start + chunkSize, span.end);
+    windows.push({ start, end });
+    if (end === span.end) break;
+  }
+  return windows;
+}
 
-  while (start < text.length) {
-    const end = Math.min(start + chunkSize, text.length);
-    chunks.push(text.substring(start, end));
-    start += chunkSize - overlap;
+/**
+ * Split a span on a separator, keeping the separator at the end of each piece
+ */
+function splitSpan(text: string, span: ChunkSpan, separator: string): ChunkSpan[] {
+  const pieces: ChunkSpan[] = [];
+  let start = span.start;
+
+  while (start < span.end) {
+    const found = text.indexOf(separator, start);
+    if (found === -1 || found >= span.end) {
+      pieces.push({ start, end: span.end });
+      break;
+    }
+    const end = Math.min(found + separator.length, span.end);
+    pieces.push({ start, end });
+    start = end;
   }
 
-  return chunks;
+  return pieces;
 }
 
 /**
- * Split text by sentences while respecting chunk size limits
+ * Break a span into pieces no larger than chunkSize, trying coarser separators first
  */
-export function chunkBySentences(
+function splitRecursively(
   text: string,
-  options: ChunkOptions = {}
-): string[] {
-  const chunkSize = options.chunkSize || DEFAULT_CHUNK_SIZE;
-  const overlap = options.overlap || DEFAULT_OVERLAP;
-
-  // Split by common sentence terminators
-  const sentences = text.match(/[^.!?]+[.!?]+/g) || [text];
-  
-  const chunks: string[] = [];
-  let currentChunk = '';
-
-  for (const sentence of sentences) {
-    if ((currentChunk + sentence).length <= chunkSize) {
-      currentChunk += sentence;
-    } else {
-      if (currentChunk) {
-        chunks.push(currentChunk.trim());
-      }
-      currentChunk = sentence;
+  span: ChunkSpan,
+  chunkSize: number,
+  separators: string[] = RECURSIVE_SEPARATORS
+): ChunkSpan[] {
+  if (span.end - span.start <= chunkSize) {
+    return [span];
+  }
+
+  const [separator, ...rest] = separators;
+  if (separator === undefined) {
+    return fixedWindows(span, chunkSize, 0);
+  }
+
+  const pieces = splitSpan(text, span, separator);
+  if (pieces.length === 1) {
+    return splitRecursively(text, span, chunkSize, rest);
+  }
+  return pieces.flatMap(piece => splitRecursively(text, piece, chunkSize, rest));
+}
+
+/**
+ * Greedily pack consecutive units into chunks of at most chunkSize characters.
+ * Each new chunk starts with the trailing units of the previous chunk that fit in `overlap`.
+ * Units must already be no larger than chunkSize.
+ */
+function mergeUnits(units: ChunkSpan[], chunkSize: number, overlap: number): ChunkSpan[] {
+  const chunks: ChunkSpan[] = [];
+  const size = (from: number, to: number) => units[to].end - units[from].start;
+  let first = 0;
+
+  while (first < units.length) {
+    let last = first;
+    while (last + 1 < units.length && size(first, last + 1) <= chunkSize) {
+      last++;
+    }
+    chunks.push({ start: units[first].start, end: units[last].end });
+
+    if (last + 1 >= units.length) break;
+
+    // Step back over units that fit in the overlap, as long as the next unit still fits
+    let next = last + 1;
+    while (
+      next - 1 > first &&
+      size(next - 1, last) <= overlap &&
+      size(next - 1, last + 1) <= chunkSize
+    ) {
+      next--;
     }
+    first = next;
   }
 
-  if (currentChunk) {
-    chunks.push(currentChunk.trim());
+  return chunks;
+}
+
+/**
+ * Pack units into chunks, splitting any unit that exceeds the hard maximum first
+ */
+function packUnits(text: string, units: ChunkSpan[], options: ChunkOptions): ChunkSpan[] {
+  const { chunkSize, overlap } = resolveChunkOptions(options);
+  const bounded = trimSpans(text, units).flatMap(unit => splitRecursively(text, unit, chunkSize));
+  return trimSpans(text, mergeUnits(bounded, chunkSize, overlap));
+}
+
+/**
+ * Locate sentences by common terminators; trailing text without one is its own sentence
+ */
+function sentenceSpans(text: string): ChunkSpan[] {
+  return [...text.matchAll(/[^.!?]+(?:[.!?]+|$)/g)].map(match => ({
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+}
+
+/**
+ * Get the value below which `percentile` percent of the values fall
+ */
+function percentileOf(values: number[], percentile: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (Math.min(Math.max(percentile, 0), 100) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Fixed-size character windows
+ */
+const fixedChunker: SpanChunker = (text, options = {}) => {
+  const { chunkSize, overlap } = resolveChunkOptions(options);
+  return trimSpans(text, fixedWindows({ start: 0, end: text.length }, chunkSize, overlap));
+};
+
+/**
+ * Sentences packed into chunks
+ */
+const sentenceChunker: SpanChunker = (text, options = {}) => {
+  return packUnits(text, sentenceSpans(text), options);
+};
+
+/**
+ * Paragraphs (blank-line separated) packed into chunks
+ */
+const paragraphChunker: SpanChunker = (text, options = {}) => {
+  const units = splitSpan(text, { start: 0, end: text.length }, '\n\n');
+  return packUnits(text, units, options);
+};
+
+/**
+ * Recursive separator splitting: paragraphs, then lines, sentences and words
+ */
+const recursiveChunker: SpanChunker = (text, options = {}) => {
+  const { chunkSize } = resolveChunkOptions(options);
+  const units = splitRecursively(text, { start: 0, end: text.length }, chunkSize);
+  return packUnits(text, units, options);
+};
+
+/**
+ * Markdown sections: chunks never cross a heading, and each starts at one when possible
+ */
+const markdownChunker: SpanChunker = (text, options = {}) => {
+  const headingStarts = [...text.matchAll(/^#{1,6}[ \t]+\S/gm)].map(match => match.index);
+  const boundaries = [0, ...headingStarts.filter(index => index > 0), text.length];
+
+  const chunks: ChunkSpan[] = [];
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const section = { start: boundaries[i], end: boundaries[i + 1] };
+    chunks.push(...packUnits(text, [section], options));
   }
+  return chunks;
+};
 
+/**
+ * Fixed windows measured in tokens rather than characters
+ */
+const tokenChunker: SpanChunker = (text, options = {}) => {
+  const { chunkSize, overlap } = resolveChunkOptions(options);
+  const tokens = tokenSpans(text);
+  const chunks: ChunkSpan[] = [];
+
+  for (let first = 0; first < tokens.length; first += chunkSize - overlap) {
+    const last = Math.min(first + chunkSize, tokens.length) - 1;
+    chunks.push({ start: tokens[first].start, end: tokens[last].end });
+    if (last === tokens.length - 1) break;
+  }
   return chunks;
+};
+
+/**
+ * Sentences grouped by topic: a chunk closes where the embedding similarity of
+ * adjacent sentences falls to the breakpoint percentile, once it has reached
+ * the minimum size. The chunk size stays a hard maximum.
+ */
+const semanticChunker: Chunker = async (text, options = {}) => {
+  const { embeddingProvider } = options;
+  if (!embeddingProvider) {
+    throw new Error('Semantic chunking requires an embedding provider');
+  }
+
+  const { chunkSize, overlap } = resolveChunkOptions(options);
+  const minChunkSize = Math.min(options.minChunkSize ?? DEFAULT_MIN_CHUNK_SIZE, chunkSize);
+  const units = trimSpans(text, sentenceSpans(text)).flatMap(unit => splitRecursively(text, unit, chunkSize));
+  if (units.length <= 1) {
+    return units;
+  }
+
+  const embeddings = await embeddingProvider.generateEmbeddings(
+    units.map(unit => text.substring(unit.start, unit.end))
+  );
+  const similarities = units.slice(1).map((_, i) => cosineSimilarity(embeddings[i], embeddings[i + 1]));
+  const threshold = percentileOf(similarities, options.breakpointPercentile ?? DEFAULT_BREAKPOINT_PERCENTILE);
+
+  // Group consecutive sentences, closing a group at a breakpoint or when the next sentence would not fit
+  const size = (from: number, to: number) => units[to].end - units[from].start;
+  const groups: Array<{ first: number; last: number }> = [];
+  let first = 0;
+  for (let i = 1; i <= units.length; i++) {
+    const isEnd = i === units.length;
+    const fits = !isEnd && size(first, i) <= chunkSize;
+    const isBreakpoint = !isEnd && similarities[i - 1] <= threshold && size(first, i - 1) >= minChunkSize;
+    if (isEnd || !fits || isBreakpoint) {
+      groups.push({ first, last: i - 1 });
+      first = i;
+    }
+  }
+
+  // Fold a short trailing group into the previous one when it fits
+  if (groups.length > 1) {
+    const tail = groups[groups.length - 1];
+    const previous = groups[groups.length - 2];
+    if (size(tail.first, tail.last) < minChunkSize && size(previous.first, tail.last) <= chunkSize) {
+      previous.last = tail.last;
+      groups.pop();
+    }
+  }
+
+  // Repeat trailing sentences of the previous group that fit in the overlap
+  return groups.map(({ first, last }, index) => {
+    let start = first;
+    while (
+      index > 0 &&
+      start - 1 >= groups[index - 1].first &&
+      size(start - 1, first - 1) <= overlap &&
+      size(start - 1, last) <= chunkSize
+    ) {
+      start--;
+    }
+    return { start: units[start].start, end: units[last].end };
+  });
+};
+
+const chunkers: Record<ChunkStrategy, Chunker> = {
+  fixed: fixedChunker,
+  sentence: sentenceChunker,
+  paragraph: paragraphChunker,
+  recursive: recursiveChunker,
+  markdown: markdownChunker,
+  token: tokenChunker,
+  semantic: semanticChunker,
+};
+
+export const CHUNK_STRATEGIES = Object.keys(chunkers) as ChunkStrategy[];
+
+/**
+ * Check whether a value names a chunking strategy
+ */
+export function isChunkStrategy(value: unknown): value is ChunkStrategy {
+  return typeof value === 'string' && (CHUNK_STRATEGIES as string[]).includes(value);
+}
+
+/**
+ * Get the chunker for a strategy
+ */
+export function getChunker(strategy: ChunkStrategy): Chunker {
+  if (!isChunkStrategy(strategy)) {
+    throw new Error(`Unknown chunking strategy: ${strategy}`);
+  }
+  return chunkers[strategy];
+}
+
+function toStrings(text: string, spans: ChunkSpan[]): string[] {
+  return spans.map(span => text.substring(span.start, span.end));
+}
+
+/**
+ * Split text into overlapping chunks
+ */
+export function chunkText(
+  text: string,
+  options: ChunkOptions = {}
+): string[] {
+  return toStrings(text, fixedChunker(text, options));
+}
+
+/**
+ * Split text by sentences while respecting chunk size limits
+ */
+export function chunkBySentences(
+  text: string,
+  options: ChunkOptions = {}
+): string[] {
+  return toStrings(text, sentenceChunker(text, options));
 }
 
 /**
@@ -78,48 +399,98 @@ export function chunkByParagraphs(
   text: string,
   options: ChunkOptions = {}
 ): string[] {
-  const chunkSize = options.chunkSize || DEFAULT_CHUNK_SIZE;
-  const overlap = options.overlap || DEFAULT_OVERLAP;
-
-  const paragraphs = text.split(/\n\n+/).filter(p => p.trim().length > 0);
-  
-  const chunks: string[] = [];
-  let currentChunk = '';
-
-  for (const paragraph of paragraphs) {
-    if ((currentChunk + '\n\n' + paragraph).length <= chunkSize) {
-      currentChunk += (currentChunk ? '\n\n' : '') + paragraph;
-    } else {
-      if (currentChunk) {
-        chunks.push(currentChunk.trim());
-      }
-      currentChunk = paragraph;
-    }
-  }
+  return toStrings(text, paragraphChunker(text, options));
+}
 
-  if (currentChunk) {
-    chunks.push(currentChunk.trim());
-  }
+/**
+ * Split text recursively by paragraphs, lines, sentences and words
+ */
+export function chunkRecursively(
+  text: string,
+  options: ChunkOptions = {}
+): string[] {
+  return toStrings(text, recursiveChunker(text, options));
+}
 
-  return chunks;
+/**
+ * Split Markdown text along its headings
+ */
+export function chunkByMarkdownHeadings(
+  text: string,
+  options: ChunkOptions = {}
+): string[] {
+  return toStrings(text, markdownChunker(text, options));
 }
 
 /**
- * Chunk with metadata preservation (for PDFs)
+ * Split text into windows of a fixed number of tokens
  */
-export function chunkWithMetadata(
+export function chunkByTokens(
   text: string,
-  metadata: Record<string, any>,
   options: ChunkOptions = {}
-): Array<{ text: string; metadata: Record<string, any> }> {
-  const chunks = chunkByParagraphs(text, options);
-  
-  return chunks.map((chunk, index) => ({
-    text: chunk,
-    metadata: {
-      ...metadata,
-      chunkIndex: index,
-      totalChunks: chunks.length,
-    },
-  }));
+): string[] {
+  return toStrings(text, tokenChunker(text, options));
+}
+
+/**
+ * Split text into topic-coherent chunks using sentence embedding similarity
+ */
+export async function chunkSemantically(
+  text: string,
+  embeddingProvider: EmbeddingProvider,
+  options: SemanticChunkOptions = {}
+): Promise<string[]> {
+  return toStrings(text, await semanticChunker(text, { ...options, embeddingProvider }));
+}
+
+/**
+ * Get the 1-based page containing a character offset
+ */
+function pageAt(pageOffsets: number[], offset: number): number {
+  let page = 1;
+  for (let i = 0; i < pageOffsets.length; i++) {
+    if (pageOffsets[i] <= offset) page = i + 1;
+    else break;
+  }
+  return page;
+}
+
+/**
+ * Chunk with metadata preservation (for PDFs).
+ * Each chunk records its strategy and character range; when the start offset
+ * of every page is given, it also records the pages it spans.
+ */
+export async function chunkWithMetadata(
+  text: string,
+  metadata: Record<string, any>,
+  options: ChunkingOptions = {},
+  pageOffsets?: number[]
+): Promise<Array<{ text: string; metadata: Record<string, any> }>> {
+  const strategy = options.strategy || DEFAULT_STRATEGY;
+  const { chunkSize, overlap } = resolveChunkOptions(options);
+  const spans = await getChunker(strategy)(text, { ...options, chunkSize, overlap });
+
+  return spans.map(({ start, end }, index) => {
+    const pageMetadata = pageOffsets && pageOffsets.length > 0
+      ? {
+        pageStart: pageAt(pageOffsets, start),
+        pageEnd: pageAt(pageOffsets, Math.max(start, end - 1)),
+      }
+      : {};
+
+    return {
+      text: text.substring(start, end),
+      metadata: {
+        ...metadata,
+        chunkIndex: index,
+        totalChunks: spans.length,
+        chunkStrategy: strategy,
+        chunkSize,
+        chunkOverlap: overlap,
+        charStart: start,
+        charEnd: end,
+        ...pageMetadata,
+      },
+    };
+  });
 }
@@ -0,0 +1,252 @@
+/**
+ * Collections
+ * Named knowledge bases served side by side, each with its own index, settings
+ * and directory under the collections root (`<root>/<name>/collection.json`).
+ * Collections share one embedding generator and chat provider, so they share
+ * the embedding cache and rate limits too.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { RAGSystem, RAGConfig } from './ragSystem.js';
+import { indexExists, writeFileAtomic } from './indexManifest.js';
+import { combineFilters } from './metadataFilter.js';
+import { CallerIdentity, CollectionConfig, CollectionSummary, MetadataFilter, SearchTarget } from '../types.js';
+import { logger } from './logger.js';
+
+export const DEFAULT_COLLECTION = 'default';
+
+const COLLECTION_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+const CONFIG_FILE = 'collection.json';
+
+/**
+ * Settings that can be changed after a collection is created
+ */
+export type CollectionSettings = Partial<Omit<CollectionConfig, 'name' | 'createdAt'>>;
+
+export interface Collection {
+  config: CollectionConfig;
+  ragSystem: RAGSystem;
+  dir: string;
+  indexPath: string;
+}
+
+interface CollectionManagerOptions {
+  /**
+   * Directory holding one subdirectory per collection
+   */
+  rootDir: string;
+  ragConfig: RAGConfig;
+  /**
+   * Index path of the default collection, which keeps the single-index location
+   */
+  defaultIndexPath?: string;
+}
+
+/**
+ * Check whether a string is a valid collection name (letters, digits, `-` and `_`)
+ */
+export function isCollectionName(value: unknown): value is string {
+  return typeof value === 'string' && COLLECTION_NAME_PATTERN.test(value);
+}
+
+export class CollectionManager {
+  private collections: Map<string, Collection> = new Map();
+  private rootDir: string;
+  private ragConfig: RAGConfig;
+  private defaultIndexPath: string;
+
+  constructor(options: CollectionManagerOptions) {
+    this.rootDir = options.rootDir;
+    this.defaultIndexPath = options.defaultIndexPath || path.join(this.rootDir, DEFAULT_COLLECTION, 'faiss_index');
+
+    // The default collection builds the providers that every other collection reuses
+    const defaultSystem = new RAGSystem(options.ragConfig);
+    this.ragConfig = {
+      ...options.ragConfig,
+      embeddingGenerator: defaultSystem.getEmbeddingGenerator(),
+      chatProvider: defaultSystem.getChatProvider(),
+    };
+    this.collections.set(DEFAULT_COLLECTION, {
+      config: this.readConfig(DEFAULT_COLLECTION) || this.newConfig(DEFAULT_COLLECTION),
+      ragSystem: defaultSystem,
+      dir: this.collectionDir(DEFAULT_COLLECTION),
+      indexPath: this.defaultIndexPath,
+    });
+  }
+
+  /**
+   * Find the collections saved under the root directory and load their indexes
+   */
+  async open(): Promise<void> {
+    if (fs.existsSync(this.rootDir)) {
+      for (const entry of fs.readdirSync(this.rootDir, { withFileTypes: true })) {
+        if (!entry.isDirectory() || !isCollectionName(entry.name) || this.collections.has(entry.name)) {
+          continue;
+        }
+        const config = this.readConfig(entry.name);
+        if (config) {
+          this.collections.set(entry.name, this.build(config));
+        }
+      }
+    }
+
+    for (const collection of this.collections.values()) {
+      if (indexExists(collection.indexPath)) {
+        await collection.ragSystem.loadVectorStore(collection.indexPath);
+        logger.log(
+          `✓ Loaded ${collection.ragSystem.getDocumentCount()} documents into collection ` +
+          `"${collection.config.name}" from ${collection.indexPath}`
+        );
+      }
+    }
+  }
+
+  /**
+   * List collections, the default first and the rest by name
+   */
+  list(): Collection[] {
+    return [...this.collections.values()].sort((a, b) => {
+      if (a.config.name === DEFAULT_COLLECTION) return -1;
+      if (b.config.name === DEFAULT_COLLECTION) return 1;
+      return a.config.name.localeCompare(b.config.name);
+    });
+  }
+
+  /**
+   * Get a collection, or undefined if it does not exist
+   */
+  get(name: string): Collection | undefined {
+    return this.collections.get(name);
+  }
+
+  /**
+   * Create an empty collection and save its settings
+   */
+  create(name: string, settings: CollectionSettings = {}): Collection {
+    if (!isCollectionName(name)) {
+      throw new Error(`Invalid collection name: ${name}`);
+    }
+    if (this.collections.has(name)) {
+      throw new Error(`Collection already exists: ${name}`);
+    }
+
+    const collection = this.build({ ...this.newConfig(name), ...settings });
+    this.writeConfig(collection.config);
+    this.collections.set(name, collection);
+    return collection;
+  }
+
+  /**
+   * Change a collection's settings; they apply to later uploads and queries
+   */
+  update(name: string, settings: CollectionSettings): Collection | undefined {
+    const collection = this.collections.get(name);
+    if (!collection) {
+      return undefined;
+    }
+
+    collection.config = { ...collection.config, ...settings };
+    this.writeConfig(collection.config);
+    return collection;
+  }
+
+  /**
+   * Delete a collection with its saved index. The default collection cannot be deleted.
+   */
+  delete(name: string): boolean {
+    if (name === DEFAULT_COLLECTION) {
+      throw new Error('The default collection cannot be deleted');
+    }
+
+    const collection = this.collections.get(name);
+    if (!collection) {
+      return false;
+    }
+
+    this.collections.delete(name);
+    fs.rmSync(collection.dir, { recursive: true, force: true });
+    return true;
+  }
+
+  /**
+   * Describe a collection with its settings and the documents a caller may
+   * access, limited to `sources` when given
+   */
+  summarize(collection: Collection, identity?: CallerIdentity, sources?: string[] | null): CollectionSummary {
+    const visible = collection.ragSystem.getSources(identity)
+      .filter(item => !sources || sources.includes(item.source));
+    return {
+      ...collection.config,
+      documentCount: sources
+        ? visible.reduce((total, item) => total + item.chunkCount, 0)
+        : collection.ragSystem.getDocumentCount(identity),
+      sourceCount: visible.length,
+      indexPath: collection.indexPath,
+    };
+  }
+
+  /**
+   * Search targets for a query across several collections. `filterFor` can
+   * add a filter per collection on top of the query's own.
+   */
+  searchTargets(
+    collections: Collection[],
+    filterFor?: (collection: Collection) => MetadataFilter | undefined
+  ): SearchTarget[] {
+    return collections.map(collection => ({
+      name: collection.config.name,
+      search: (query, topK, filter, identity, signal) =>
+        collection.ragSystem.search(query, topK, combineFilters(filter, filterFor?.(collection)), identity, signal),
+    }));
+  }
+
+  private build(config: CollectionConfig): Collection {
+    const dir = this.collectionDir(config.name);
+    return {
+      config,
+      ragSystem: new RAGSystem(this.ragConfig),
+      dir,
+      indexPath: path.join(dir, 'faiss_index'),
+    };
+  }
+
+  private newConfig(name: string): CollectionConfig {
+    return {
+      name,
+      description: '',
+      topK: null,
+      rerankTopK: null,
+      chunkStrategy: null,
+      chunkSize: null,
+      chunkOverlap: null,
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  private collectionDir(name: string): string {
+    return path.join(this.rootDir, name);
+  }
+
+  private readConfig(name: string): CollectionConfig | null {
+    const file = path.join(this.collectionDir(name), CONFIG_FILE);
+    if (!fs.existsSync(file)) {
+      return null;
+    }
+
+    try {
+      return { ...this.newConfig(name), ...JSON.parse(fs.readFileSync(file, 'utf-8')), name };
+    } catch (error: any) {
+      throw new Error(`Invalid collection config ${file}: ${error.message}`);
+    }
+  }
+
+  private writeConfig(config: CollectionConfig): void {
+    const dir = this.collectionDir(config.name);
+    fs.mkdirSync(dir, { recursive: true });
+    writeFileAtomic(path.join(dir, CONFIG_FILE), tempFile => {
+      fs.writeFileSync(tempFile, JSON.stringify(config, null, 2));
+    });
+  }
+}
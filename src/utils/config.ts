@@ -0,0 +1,150 @@
+/**
+ * Environment Configuration
+ * Builds the RAG system configuration shared by the server and the CLI
+ */
+
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { RAGConfig } from './ragSystem.js';
+import { ContextFormat, IndexMismatchPolicy, RerankStrategyName } from '../types.js';
+import { CONTEXT_FORMATS, isContextFormat } from './contextSerializer.js';
+import { isProviderName, PROVIDER_NAMES } from './providers.js';
+import { isRerankStrategyName, RERANK_STRATEGIES } from './reranker.js';
+
+const PROJECT_ROOT = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', '..');
+
+export const DEFAULT_INDEX_PATH = path.join(PROJECT_ROOT, 'faiss_index');
+
+const DEFAULT_COLLECTIONS_DIR = path.join(PROJECT_ROOT, 'collections');
+
+const DEFAULT_API_KEYS_PATH = path.join(PROJECT_ROOT, 'api_keys.json');
+
+const DEFAULT_AUDIT_LOG_PATH = path.join(PROJECT_ROOT, 'audit.jsonl');
+
+const DEFAULT_EMBEDDING_CACHE_PATH = path.join(PROJECT_ROOT, 'embedding_cache.jsonl');
+
+const INDEX_MISMATCH_POLICIES: IndexMismatchPolicy[] = ['error', 'reembed'];
+
+/**
+ * Read a non-negative integer variable, or undefined when it is unset or empty
+ */
+function parseInteger(env: NodeJS.ProcessEnv, name: string): number | undefined {
+  const value = env[name]?.trim();
+  if (!value) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`${name} must be a non-negative integer`);
+  }
+  return parseInt(value, 10);
+}
+
+/**
+ * Read a finite number variable, or undefined when it is unset or empty
+ */
+function parseNumber(env: NodeJS.ProcessEnv, name: string): number | undefined {
+  const value = env[name]?.trim();
+  if (!value) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isFinite(number)) {
+    throw new Error(`${name} must be a number`);
+  }
+  return number;
+}
+
+/**
+ * Read a number variable between 0 and 1, or undefined when it is unset or empty
+ */
+function parseFraction(env: NodeJS.ProcessEnv, name: string): number | undefined {
+  const value = env[name]?.trim();
+  const number = value ? Number(value) : undefined;
+  if (number !== undefined && !(number >= 0 && number <= 1)) {
+    throw new Error(`${name} must be a number between 0 and 1`);
+  }
+  return number;
+}
+
+/**
+ * Path of the saved index: RAG_INDEX_PATH, or faiss_index in the project root
+ */
+export function indexPathFromEnv(env: NodeJS.ProcessEnv = process.env): string {
+  return path.resolve(env.RAG_INDEX_PATH || DEFAULT_INDEX_PATH);
+}
+
+/**
+ * Directory of named collections: RAG_COLLECTIONS_DIR, or collections in the project root
+ */
+export function collectionsDirFromEnv(env: NodeJS.ProcessEnv = process.env): string {
+  return path.resolve(env.RAG_COLLECTIONS_DIR || DEFAULT_COLLECTIONS_DIR);
+}
+
+/**
+ * API key file: RAG_API_KEYS_PATH, or api_keys.json in the project root
+ */
+export function apiKeysPathFromEnv(env: NodeJS.ProcessEnv = process.env): string {
+  return path.resolve(env.RAG_API_KEYS_PATH || DEFAULT_API_KEYS_PATH);
+}
+
+/**
+ * Audit log of rejected requests: RAG_AUDIT_LOG_PATH, or audit.jsonl in the
+ * project root. An empty RAG_AUDIT_LOG_PATH logs to the console only.
+ */
+export function auditLogPathFromEnv(env: NodeJS.ProcessEnv = process.env): string | undefined {
+  const auditLogPath = env.RAG_AUDIT_LOG_PATH ?? DEFAULT_AUDIT_LOG_PATH;
+  return auditLogPath ? path.resolve(auditLogPath) : undefined;
+}
+
+/**
+ * Read the RAG configuration from environment variables
+ */
+export function ragConfigFromEnv(env: NodeJS.ProcessEnv = process.env): RAGConfig {
+  const apiKey = env.GEMINI_API_KEY;
+  const provider = env.RAG_PROVIDER || (apiKey ? 'gemini' : 'local');
+  if (!isProviderName(provider)) {
+    throw new Error(`RAG_PROVIDER must be one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+
+  const rerankStrategy = env.RAG_RERANK_STRATEGY || undefined;
+  if (rerankStrategy !== undefined && !isRerankStrategyName(rerankStrategy)) {
+    throw new Error(`RAG_RERANK_STRATEGY must be one of: ${RERANK_STRATEGIES.join(', ')}`);
+  }
+  const indexMismatch = env.RAG_INDEX_MISMATCH || undefined;
+  if (indexMismatch !== undefined && !(INDEX_MISMATCH_POLICIES as string[]).includes(indexMismatch)) {
+    throw new Error(`RAG_INDEX_MISMATCH must be one of: ${INDEX_MISMATCH_POLICIES.join(', ')}`);
+  }
+  const contextFormat = env.RAG_CONTEXT_FORMAT || undefined;
+  if (contextFormat !== undefined && !isContextFormat(contextFormat)) {
+    throw new Error(`RAG_CONTEXT_FORMAT must be one of: ${CONTEXT_FORMATS.join(', ')}`);
+  }
+  // An empty RAG_EMBEDDING_CACHE_PATH keeps the cache in memory only
+  const embeddingCachePath = env.RAG_EMBEDDING_CACHE_PATH ?? DEFAULT_EMBEDDING_CACHE_PATH;
+
+  return {
+    provider,
+    geminiApiKey: apiKey,
+    providerApiKey: env.RAG_PROVIDER_API_KEY || env.OPENAI_API_KEY,
+    providerBaseUrl: env.RAG_PROVIDER_BASE_URL,
+    providerTimeoutMs: parseInteger(env, 'RAG_PROVIDER_TIMEOUT_MS'),
+    embeddingModel: env.RAG_EMBEDDING_MODEL,
+    llmModel: env.RAG_LLM_MODEL,
+    embeddingDimension: parseInteger(env, 'RAG_EMBEDDING_DIMENSION'),
+    topK: 10,
+    rerankTopK: 3,
+    keywordWeight: parseFraction(env, 'RAG_KEYWORD_WEIGHT'),
+    minScore: parseNumber(env, 'RAG_MIN_SCORE'),
+    rerankStrategy: rerankStrategy as RerankStrategyName | undefined,
+    mmrLambda: parseFraction(env, 'RAG_MMR_LAMBDA'),
+    multiQueryCount: parseInteger(env, 'RAG_MULTI_QUERY_COUNT'),
+    maxSubQuestions: parseInteger(env, 'RAG_MAX_SUB_QUESTIONS'),
+    embeddingCacheSize: parseInteger(env, 'RAG_EMBEDDING_CACHE_SIZE'),
+    embeddingCachePath: embeddingCachePath || undefined,
+    embeddingBatchSize: parseInteger(env, 'RAG_EMBEDDING_BATCH_SIZE'),
+    embeddingConcurrency: parseInteger(env, 'RAG_EMBEDDING_CONCURRENCY'),
+    embeddingRequestsPerMinute: parseInteger(env, 'RAG_EMBEDDING_REQUESTS_PER_MINUTE'),
+    embeddingMaxRetries: parseInteger(env, 'RAG_EMBEDDING_MAX_RETRIES'),
+    indexMismatch: indexMismatch as IndexMismatchPolicy | undefined,
+    contextFormat: contextFormat as ContextFormat | undefined,
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * Context Serialization for LLM Prompts
+ * Renders retrieved documents as plain text, JSON or a TOON table
+ */
+
+import { Document, ContextFormat, ContextTokenReport } from '../types.js';
+import { toToon } from './toon.js';
+import { tokenSpans } from './tokenizer.js';
+
+export const DEFAULT_CONTEXT_METADATA_FIELDS = ['source', 'pageStart', 'pageEnd', 'chunkIndex', 'pages'];
+
+/**
+ * Format a human-readable citation such as "a.pdf p. 12–13"
+ */
+export function formatCitation(doc: Document): string {
+  const source = doc.metadata?.source ?? doc.id;
+  const pageStart = doc.metadata?.pageStart;
+  const pageEnd = doc.metadata?.pageEnd ?? pageStart;
+
+  if (typeof pageStart !== 'number') {
+    return source;
+  }
+  return pageEnd !== pageStart
+    ? `${source} p. ${pageStart}–${pageEnd}`
+    : `${source} p. ${pageStart}`;
+}
+
+export interface ContextSerializer {
+  format: ContextFormat;
+  /**
+   * Render documents into the context block of the prompt
+   */
+  serialize(documents: Document[], metadataFields: string[]): string;
+  /**
+   * Describe the context layout to the model
+   */
+  describe(metadataFields: string[]): string;
+}
+
+/**
+ * Flatten documents into uniform rows so TOON can emit them as a table
+ */
+function toRows(
+  documents: Document[],
+  metadataFields: string[]
+): Array<Record<string, string | number | boolean | null>> {
+  return documents.map((doc, idx) => {
+    const row: Record<string, string | number | boolean | null> = { doc: idx + 1 };
+
+    for (const field of metadataFields) {
+      const value = doc.metadata?.[field];
+      if (value === undefined || value === null) {
+        row[field] = null;
+      } else if (typeof value === 'object') {
+        row[field] = JSON.stringify(value);
+      } else {
+        row[field] = value;
+      }
+    }
+
+    row.content = doc.content;
+    return row;
+  });
+}
+
+const plainSerializer: ContextSerializer = {
+  format: 'plain',
+  serialize(documents) {
+    return documents
+      .map((doc, idx) => `[Document ${idx + 1}] (${formatCitation(doc)})\n${doc.content}`)
+      .join('\n\n');
+  },
+  describe() {
+    return 'The context is a list of documents, each introduced by a [Document N] header with its source and pages.';
+  },
+};
+
+const jsonSerializer: ContextSerializer = {
+  format: 'json',
+  serialize(documents, metadataFields) {
+    return JSON.stringify(toRows(documents, metadataFields), null, 2);
+  },
+  describe(metadataFields) {
+    return `The context is a JSON array of documents with the fields: doc, ${[...metadataFields, 'content'].join(', ')}.`;
+  },
+};
+
+const toonSerializer: ContextSerializer = {
+  format: 'toon',
+  serialize(documents, metadataFields) {
+    return toToon({ documents: toRows(documents, metadataFields) });
+  },
+  describe(metadataFields) {
+    return `The context is a TOON table of documents. The header lists the row count and the fields (doc, ${[...metadataFields, 'content'].join(', ')}); each following line is one document.`;
+  },
+};
+
+const serializers: Record<ContextFormat, ContextSerializer> = {
+  plain: plainSerializer,
+  json: jsonSerializer,
+  toon: toonSerializer,
+};
+
+export const CONTEXT_FORMATS = Object.keys(serializers) as ContextFormat[];
+
+/**
+ * Get the serializer for a context format
+ */
+export function getContextSerializer(format: ContextFormat): ContextSerializer {
+  if (!isContextFormat(format)) {
+    throw new Error(`Unknown context format: ${format}`);
+  }
+  return serializers[format];
+}
+
+/**
+ * Check whether a value names a supported context format
+ */
+export function isContextFormat(value: unknown): value is ContextFormat {
+  return typeof value === 'string' && (CONTEXT_FORMATS as string[]).includes(value);
+}
+
+/**
+ * Approximate the token count of a string.
+ * Counts word pieces and individual punctuation marks, which tracks
+ * BPE-style tokenizers closely enough to compare formats against each other.
+ */
+export function estimateTokens(text: string): number {
+  return tokenSpans(text).length;
+}
+
+/**
+ * Compare the token cost of every context format for the same documents
+ */
+export function buildContextTokenReport(
+  documents: Document[],
+  metadataFields: string[],
+  selected: ContextFormat
+): ContextTokenReport {
+  const counts = {} as Record<ContextFormat, number>;
+  for (const format of CONTEXT_FORMATS) {
+    counts[format] = estimateTokens(serializers[format].serialize(documents, metadataFields));
+  }
+
+  return {
+    selected,
+    plain: counts.plain,
+    json: counts.json,
+    toon: counts.toon,
+    toonSavingsVsJson: counts.json > 0
+      ? Number(((counts.json - counts.toon) / counts.json).toFixed(4))
+      : 0,
+  };
+}
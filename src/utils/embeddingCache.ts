@@ -0,0 +1,225 @@
+/**
+ * Embedding Cache
+ * Keeps embeddings keyed by model and content hash: recent ones in an
+ * in-memory LRU, all of them in an append-only file on disk
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { EmbeddingCacheStats } from '../types.js';
+import { hashContent } from './hashing.js';
+import { logger } from './logger.js';
+
+// Bytes of the cache file read at a time while indexing it
+const READ_CHUNK_SIZE = 1 << 20;
+
+interface EmbeddingCacheOptions {
+  /**
+   * Maximum number of embeddings kept in memory
+   */
+  maxEntries?: number;
+  /**
+   * JSON Lines file that persists every cached embedding; memory only when omitted
+   */
+  filePath?: string;
+}
+
+export class EmbeddingCache {
+  private memory = new Map<string, number[]>();
+  // Byte offset and length of each entry in the cache file
+  private diskIndex = new Map<string, { offset: number; length: number }>();
+  private maxEntries: number;
+  private filePath?: string;
+  private memoryHits = 0;
+  private diskHits = 0;
+  private misses = 0;
+
+  constructor(options: EmbeddingCacheOptions = {}) {
+    this.maxEntries = Math.max(1, options.maxEntries ?? 10000);
+    this.filePath = options.filePath;
+    if (this.filePath) {
+      this.loadIndex();
+    }
+  }
+
+  /**
+   * Build the cache key for a text embedded by a model
+   */
+  static key(model: string, text: string): string {
+    return `${model}:${hashContent(text)}`;
+  }
+
+  /**
+   * Get a cached embedding, checking memory first and then disk
+   */
+  get(key: string): number[] | undefined {
+    const cached = this.memory.get(key);
+    if (cached) {
+      // Re-insert to mark as most recently used
+      this.memory.delete(key);
+      this.memory.set(key, cached);
+      this.memoryHits++;
+      return cached;
+    }
+
+    const stored = this.readFromDisk(key);
+    if (stored) {
+      this.remember(key, stored);
+      this.diskHits++;
+      return stored;
+    }
+
+    this.misses++;
+    return undefined;
+  }
+
+  /**
+   * Cache an embedding in memory and on disk
+   */
+  set(key: string, embedding: number[]): void {
+    this.remember(key, embedding);
+    if (this.filePath && !this.diskIndex.has(key)) {
+      this.appendToDisk(key, embedding);
+    }
+  }
+
+  /**
+   * Get hit and miss counts and cache sizes
+   */
+  getStats(): EmbeddingCacheStats {
+    const hits = this.memoryHits + this.diskHits;
+    const lookups = hits + this.misses;
+    return {
+      hits,
+      memoryHits: this.memoryHits,
+      diskHits: this.diskHits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? Number((hits / lookups).toFixed(4)) : 0,
+      memoryEntries: this.memory.size,
+      maxMemoryEntries: this.maxEntries,
+      diskEntries: this.diskIndex.size,
+      filePath: this.filePath ?? null,
+    };
+  }
+
+  private remember(key: string, embedding: number[]): void {
+    this.memory.delete(key);
+    this.memory.set(key, embedding);
+    if (this.memory.size > this.maxEntries) {
+      // Maps iterate in insertion order, so the first key is the least recently used
+      this.memory.delete(this.memory.keys().next().value);
+    }
+  }
+
+  /**
+   * Scan the cache file a chunk at a time and record where each entry is
+   */
+  private loadIndex(): void {
+    if (!fs.existsSync(this.filePath)) {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      return;
+    }
+
+    const fd = fs.openSync(this.filePath, 'r');
+    try {
+      const buffer = Buffer.alloc(READ_CHUNK_SIZE);
+      // Start of a line not yet ended, and its offset in the file
+      let pending = Buffer.alloc(0);
+      let pendingOffset = 0;
+      let bytesRead: number;
+      while ((bytesRead = fs.readSync(fd, buffer, 0, buffer.length, pendingOffset + pending.length)) > 0) {
+        const data = Buffer.concat([pending, buffer.subarray(0, bytesRead)]);
+        let start = 0;
+        let end: number;
+        while ((end = data.indexOf(0x0a, start)) !== -1) {
+          this.indexLine(data.subarray(start, end), pendingOffset + start);
+          start = end + 1;
+        }
+        pending = data.subarray(start);
+        pendingOffset += start;
+      }
+      // A last line without a newline was cut short by a crash; it is rewritten on the next miss
+    } finally {
+      fs.closeSync(fd);
+    }
+    logger.log(`Embedding cache: ${this.diskIndex.size} entries on disk at ${this.filePath}`);
+  }
+
+  /**
+   * Record the entry on a line, reading only its key rather than parsing the
+   * vector. Lines not ending in `}` were cut short and are skipped.
+   */
+  private indexLine(line: Buffer, offset: number): void {
+    const keyEnd = line.indexOf(',"v":');
+    if (keyEnd === -1 || line[line.length - 1] !== 0x7d) {
+      return;
+    }
+    try {
+      const { k } = JSON.parse(`${line.subarray(0, keyEnd).toString('utf-8')}}`);
+      if (typeof k === 'string') {
+        this.diskIndex.set(k, { offset, length: line.length });
+      }
+    } catch {
+      // Ignore malformed lines
+    }
+  }
+
+  /**
+   * Read an entry from the cache file. Anything but the expected entry at the
+   * recorded place (a line garbled by a concurrent writer, a truncated or
+   * replaced file) is dropped from the index and counts as a miss.
+   */
+  private readFromDisk(key: string): number[] | undefined {
+    const location = this.diskIndex.get(key);
+    if (!location) {
+      return undefined;
+    }
+
+    try {
+      const buffer = Buffer.alloc(location.length);
+      const fd = fs.openSync(this.filePath, 'r');
+      try {
+        fs.readSync(fd, buffer, 0, location.length, location.offset);
+      } finally {
+        fs.closeSync(fd);
+      }
+      const { k, v } = JSON.parse(buffer.toString('utf-8'));
+      if (k === key && Array.isArray(v)) {
+        return v;
+      }
+    } catch {
+      // Treated as a miss below
+    }
+    this.diskIndex.delete(key);
+    return undefined;
+  }
+
+  /**
+   * Append an entry. The server and the CLI may append to the same file, so
+   * the offset comes from the file's size at append time rather than from
+   * what this process wrote.
+   */
+  private appendToDisk(key: string, embedding: number[]): void {
+    try {
+      const fd = fs.openSync(this.filePath, 'a+');
+      try {
+        const { size } = fs.fstatSync(fd);
+        // Start on a fresh line if the file ends with a partial write
+        let prefix = '';
+        if (size > 0) {
+          const last = Buffer.alloc(1);
+          fs.readSync(fd, last, 0, 1, size - 1);
+          prefix = last[0] === 0x0a ? '' : '\n';
+        }
+        const line = Buffer.from(`${prefix}${JSON.stringify({ k: key, v: embedding })}\n`, 'utf-8');
+        fs.writeSync(fd, line);
+        this.diskIndex.set(key, { offset: size + prefix.length, length: line.length - prefix.length - 1 });
+      } finally {
+        fs.closeSync(fd);
+      }
+    } catch (error) {
+      // The in-memory cache still works if the disk is unavailable
+      logger.error('Error writing embedding cache:', error);
+    }
+  }
+}
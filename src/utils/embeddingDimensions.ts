@@ -0,0 +1,38 @@
+/**
+ * Known Embedding Model Dimensions
+ */
+
+const KNOWN_DIMENSIONS: Record<string, number> = {
+  'text-embedding-004': 768,
+  'embedding-001': 768,
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+  'nomic-embed-text': 768,
+  'mxbai-embed-large': 1024,
+  'all-minilm': 384,
+  'bge-m3': 1024,
+  'snowflake-arctic-embed': 1024,
+};
+
+/**
+ * Resolve the dimension of an embedding model.
+ * An explicit dimension wins; otherwise the model must be a known one.
+ */
+export function resolveEmbeddingDimension(modelName: string, dimension?: number): number {
+  if (dimension !== undefined) {
+    if (!Number.isInteger(dimension) || dimension <= 0) {
+      throw new Error('Embedding dimension must be a positive integer');
+    }
+    return dimension;
+  }
+
+  // Ollama tags such as "nomic-embed-text:latest" share the base model's dimension
+  const known = KNOWN_DIMENSIONS[modelName] || KNOWN_DIMENSIONS[modelName.split(':')[0]];
+  if (!known) {
+    throw new Error(
+      `Unknown dimension for embedding model "${modelName}". Set the embedding dimension explicitly.`
+    );
+  }
+  return known;
+}
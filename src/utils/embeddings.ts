@@ -1,25 +1,93 @@
 /**
- * Embedding Generation using Gecko Model
+ * Embedding Generation
+ * Validates input and output around the configured embedding provider, and
+ * sends uncached texts in rate-limited, retried batches
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
-
-export class EmbeddingGenerator {
-  private genAI: GoogleGenerativeAI;
-  private model: any;
-  private modelName: string = 'text-embedding-004';
-  private dimension: number = 768;
-
-  constructor(apiKey: string, modelName?: string) {
-    this.genAI = new GoogleGenerativeAI(apiKey);
-    this.model = this.genAI.getGenerativeModel({ 
-      model: modelName || this.modelName 
-    });
-    if (modelName) {
-      this.modelName = modelName;
+import { EmbeddingProvider, EmbeddingCacheStats, EmbeddingFailure, EmbeddingBatchOptions } from '../types.js';
+import { EmbeddingCache } from './embeddingCache.js';
+import { TokenBucket, RetryOptions, withRetry, mapWithConcurrency, throwIfAborted } from './rateLimit.js';
+import { logger } from './logger.js';
+
+export interface EmbeddingRequestOptions extends RetryOptions {
+  /**
+   * Texts sent to the provider per request
+   */
+  batchSize?: number;
+  /**
+   * Provider requests in flight at once
+   */
+  concurrency?: number;
+  /**
+   * Provider requests started per minute; 0 for no limit
+   */
+  requestsPerMinute?: number;
+}
+
+/**
+ * Raised when some texts could not be embedded after retrying.
+ * Texts embedded successfully are cached, so a retry only pays for the failures.
+ */
+export class EmbeddingBatchError extends Error {
+  failures: EmbeddingFailure[];
+  total: number;
+
+  constructor(failures: EmbeddingFailure[], total: number) {
+    const listed = failures.slice(0, 10).map(failure => failure.id ?? `#${failure.index}`).join(', ');
+    const more = failures.length > 10 ? `, and ${failures.length - 10} more` : '';
+    super(`Failed to embed ${failures.length} of ${total} chunks (${listed}${more}): ${failures[0]?.error}`);
+    this.name = 'EmbeddingBatchError';
+    this.failures = failures;
+    this.total = total;
+  }
+}
+
+export class EmbeddingGenerator implements EmbeddingProvider {
+  private provider: EmbeddingProvider;
+  private cache?: EmbeddingCache;
+  private options: EmbeddingRequestOptions;
+  private rateLimiter?: TokenBucket;
+
+  constructor(
+    provider: EmbeddingProvider,
+    cache?: EmbeddingCache,
+    options: EmbeddingRequestOptions = {}
+  ) {
+    this.provider = provider;
+    this.cache = cache;
+    this.options = {
+      ...options,
+      batchSize: Math.max(1, options.batchSize ?? 100),
+      concurrency: Math.max(1, options.concurrency ?? 4),
+    };
+    if (options.requestsPerMinute > 0) {
+      this.rateLimiter = new TokenBucket(options.requestsPerMinute, this.options.concurrency);
     }
   }
 
+  /**
+   * Cache key for a text; the model and dimension are part of it, so switching models never returns stale vectors
+   */
+  private cacheKey(text: string): string {
+    return EmbeddingCache.key(`${this.getModelName()}@${this.getDimension()}`, text);
+  }
+
+  /**
+   * Call the provider once the rate limiter allows it, retrying transient errors
+   */
+  private request<T>(call: () => Promise<T>): Promise<T> {
+    return withRetry(
+      async () => {
+        await this.rateLimiter?.take();
+        return call();
+      },
+      this.options,
+      (error, attempt, delayMs) => {
+        logger.warn(`Embedding request failed (${error.message}), retry ${attempt} in ${delayMs}ms`);
+      }
+    );
+  }
+
   /**
    * Generate embedding for a single text
    */
@@ -29,34 +97,96 @@ export class EmbeddingGenerator {
     }
 
     try {
-      const result = await this.model.embedContent(text.trim());
-      
-      if (!result.embedding || !result.embedding.values) {
-        throw new Error('Invalid embedding response format');
+      const key = this.cache ? this.cacheKey(text.trim()) : undefined;
+      const cached = this.cache?.get(key);
+      if (cached) {
+        return cached;
       }
 
-      return result.embedding.values;
+      const embedding = await this.request(() => this.provider.generateEmbedding(text.trim()));
+      this.cache?.set(key, embedding);
+      return embedding;
     } catch (error) {
-      console.error('Error generating embedding:', error);
+      logger.error('Error generating embedding:', error);
       throw error;
     }
   }
 
   /**
-   * Generate embeddings for multiple texts in batch
+   * Generate embeddings for multiple texts in batch.
+   * Uncached texts are embedded once each, in batches of `batchSize` with at most
+   * `concurrency` requests in flight. Throws an EmbeddingBatchError listing the
+   * texts that still failed after retrying. Aborting the signal stops before the next batch.
    */
-  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+  async generateEmbeddings(texts: string[], options: EmbeddingBatchOptions = {}): Promise<number[][]> {
     if (!Array.isArray(texts) || texts.length === 0) {
       throw new Error('Texts array cannot be empty');
     }
 
+    if (texts.some(text => !text || text.trim().length === 0)) {
+      throw new Error('Text cannot be empty');
+    }
+
     try {
-      const embeddings = await Promise.all(
-        texts.map(text => this.generateEmbedding(text))
-      );
+      const trimmed = texts.map(text => text.trim());
+      const keys = this.cache ? trimmed.map(text => this.cacheKey(text)) : trimmed;
+      const embeddings = this.cache ? keys.map(key => this.cache.get(key)) : new Array<number[]>(texts.length);
+
+      // Positions of each distinct text that is not cached
+      const missing = new Map<string, number[]>();
+      keys.forEach((key, i) => {
+        if (!embeddings[i]) missing.set(key, [...(missing.get(key) || []), i]);
+      });
+      const { signal, onProgress } = options;
+      let embedded = texts.length - [...missing.values()].reduce((sum, positions) => sum + positions.length, 0);
+      onProgress?.(embedded, texts.length);
+      if (missing.size === 0) {
+        return embeddings;
+      }
+
+      const pending = [...missing.entries()];
+      const batches: Array<typeof pending> = [];
+      for (let i = 0; i < pending.length; i += this.options.batchSize) {
+        batches.push(pending.slice(i, i + this.options.batchSize));
+      }
+
+      const results = await mapWithConcurrency(batches, this.options.concurrency, async batch => {
+        throwIfAborted(signal);
+        const generated = await this.request(() =>
+          this.provider.generateEmbeddings(batch.map(([, positions]) => trimmed[positions[0]]))
+        );
+        if (!Array.isArray(generated) || generated.length !== batch.length) {
+          throw new Error(`Expected ${batch.length} embeddings, got ${generated?.length}`);
+        }
+
+        // Cache each batch as it completes, so a later failure does not waste it
+        batch.forEach(([key, positions], i) => {
+          if (this.cache) this.cache.set(key, generated[i]);
+          positions.forEach(position => {
+            embeddings[position] = generated[i];
+          });
+          embedded += positions.length;
+        });
+        onProgress?.(embedded, texts.length);
+      });
+
+      throwIfAborted(signal);
+
+      const failures: EmbeddingFailure[] = results
+        .flatMap((result, b) => result.status === 'rejected'
+          ? batches[b].flatMap(([, positions]) => positions.map(index => ({
+            index,
+            error: result.reason?.message || String(result.reason),
+          })))
+          : [])
+        .sort((a, b) => a.index - b.index);
+      if (failures.length > 0) {
+        throw new EmbeddingBatchError(failures, texts.length);
+      }
+
       return embeddings;
     } catch (error) {
-      console.error('Error generating batch embeddings:', error);
+      logger.error('Error generating batch embeddings:', error);
       throw error;
     }
   }
@@ -65,21 +195,28 @@ export class EmbeddingGenerator {
    * Get model dimension
    */
   getDimension(): number {
-    return this.dimension;
+    return this.provider.getDimension();
   }
 
   /**
    * Get model name
    */
   getModelName(): string {
-    return this.modelName;
+    return this.provider.getModelName();
+  }
+
+  /**
+   * Get embedding cache statistics, or null when caching is off
+   */
+  getCacheStats(): EmbeddingCacheStats | null {
+    return this.cache ? this.cache.getStats() : null;
   }
 
   /**
    * Validate embedding dimension
    */
   validateEmbedding(embedding: number[]): boolean {
-    return Array.isArray(embedding) && embedding.length === this.dimension;
+    return Array.isArray(embedding) && embedding.length === this.getDimension();
   }
 }
 
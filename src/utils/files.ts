@@ -0,0 +1,99 @@
+/**
+ * File Discovery
+ * Expands files, directories and glob patterns into the files to ingest
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+const GLOB_CHARS = /[*?[]/;
+
+/**
+ * Convert a glob pattern to a regular expression over '/'-separated paths.
+ * Supports `*`, `?`, `[...]` and `**` for any number of directories.
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // `**/` matches zero or more directories
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const close = pattern.indexOf(']', i + 1);
+      if (close === -1) {
+        source += '\\[';
+      } else {
+        source += pattern.slice(i, close + 1);
+        i = close;
+      }
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * List every file below a directory, skipping hidden entries and node_modules
+ */
+function walk(dir: string): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...walk(fullPath));
+    } else if (entry.isFile()) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Expand files, directories and glob patterns into a sorted list of files.
+ * Files found through directories and globs are limited to the given extensions;
+ * files named explicitly are always included. Inputs that match nothing are reported.
+ */
+export function collectFiles(
+  inputs: string[],
+  extensions: string[]
+): { files: string[]; unmatched: string[] } {
+  const files = new Set<string>();
+  const unmatched: string[] = [];
+  const hasExtension = (file: string) => extensions.includes(path.extname(file).toLowerCase());
+
+  for (const input of inputs) {
+    let matched: string[] = [];
+
+    if (GLOB_CHARS.test(input)) {
+      // Walk from the longest directory prefix without glob characters
+      const parts = input.split(/[\\/]/);
+      const firstGlob = parts.findIndex(part => GLOB_CHARS.test(part));
+      const base = parts.slice(0, firstGlob).join('/') || '.';
+      const pattern = globToRegExp(parts.slice(firstGlob).join('/'));
+
+      if (fs.existsSync(base) && fs.statSync(base).isDirectory()) {
+        matched = walk(base).filter(file =>
+          pattern.test(path.relative(base, file).split(path.sep).join('/')) && hasExtension(file)
+        );
+      }
+    } else if (fs.existsSync(input)) {
+      matched = fs.statSync(input).isDirectory() ? walk(input).filter(hasExtension) : [input];
+    }
+
+    if (matched.length === 0) {
+      unmatched.push(input);
+    }
+    matched.forEach(file => files.add(path.resolve(file)));
+  }
+
+  return { files: [...files].sort(), unmatched };
+}
@@ -0,0 +1,100 @@
+/**
+ * Gemini Providers
+ * Embeddings and chat completions through the Google Generative AI SDK
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { ChatProvider, ChatRequest, ChatStreamChunk, EmbeddingProvider } from '../types.js';
+import { resolveEmbeddingDimension } from './embeddingDimensions.js';
+
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+  private model: any;
+  private modelName: string;
+  private dimension: number;
+
+  constructor(apiKey: string, modelName: string = 'text-embedding-004', dimension?: number) {
+    if (!apiKey) {
+      throw new Error('Gemini API key is required');
+    }
+    this.modelName = modelName;
+    this.dimension = resolveEmbeddingDimension(modelName, dimension);
+    this.model = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model: modelName });
+  }
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    const result = await this.model.embedContent(text);
+
+    if (!result.embedding || !result.embedding.values) {
+      throw new Error('Invalid embedding response format');
+    }
+
+    return result.embedding.values;
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    // One batchEmbedContents request for the whole batch
+    const result = await this.model.batchEmbedContents({
+      requests: texts.map(text => ({ content: { role: 'user', parts: [{ text }] } })),
+    });
+
+    if (!Array.isArray(result.embeddings) || result.embeddings.length !== texts.length) {
+      throw new Error('Invalid embedding response format');
+    }
+
+    return result.embeddings.map((embedding: { values: number[] }) => embedding.values);
+  }
+
+  getDimension(): number {
+    return this.dimension;
+  }
+
+  getModelName(): string {
+    return this.modelName;
+  }
+}
+
+export class GeminiChatProvider implements ChatProvider {
+  private model: any;
+  private modelName: string;
+
+  constructor(apiKey: string, modelName: string = 'gemini-2.0-flash-exp') {
+    if (!apiKey) {
+      throw new Error('Gemini API key is required');
+    }
+    this.modelName = modelName;
+    this.model = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model: modelName });
+  }
+
+  async generate(request: ChatRequest, signal?: AbortSignal): Promise<string> {
+    const result = await this.model.generateContent(request.prompt, { signal });
+    const response = await result.response;
+    return response.text();
+  }
+
+  async *generateStream(request: ChatRequest, signal?: AbortSignal): AsyncIterable<ChatStreamChunk> {
+    const result = await this.model.generateContentStream(request.prompt, { signal });
+    let usageMetadata: any;
+
+    for await (const chunk of result.stream) {
+      usageMetadata = chunk.usageMetadata || usageMetadata;
+      const text = chunk.text();
+      if (text) {
+        yield { text };
+      }
+    }
+
+    if (usageMetadata) {
+      yield {
+        usage: {
+          promptTokens: usageMetadata.promptTokenCount || 0,
+          completionTokens: usageMetadata.candidatesTokenCount || 0,
+          estimated: false,
+        },
+      };
+    }
+  }
+
+  getModelName(): string {
+    return this.modelName;
+  }
+}
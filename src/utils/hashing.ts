@@ -0,0 +1,13 @@
+/**
+ * Content Hashing
+ * Fingerprints chunks and files so unchanged content is not embedded again
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * SHA-256 hex digest of a string or file contents
+ */
+export function hashContent(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
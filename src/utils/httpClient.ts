@@ -0,0 +1,150 @@
+/**
+ * Minimal JSON-over-HTTP client for remote providers
+ */
+
+export class HttpError extends Error {
+  status: number;
+  body: string;
+
+  constructor(url: string, status: number, body: string) {
+    super(`Request to ${url} failed with status ${status}: ${body.slice(0, 200)}`);
+    this.name = 'HttpError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+/**
+ * A request that got no complete response within its deadline. The `ETIMEDOUT`
+ * code makes it retryable like other network timeouts.
+ */
+export class RequestTimeoutError extends Error {
+  code = 'ETIMEDOUT';
+
+  constructor(url: string, timeoutMs: number) {
+    super(`Request to ${url} timed out after ${timeoutMs} ms`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+export const DEFAULT_REQUEST_TIMEOUT_MS = 60000;
+
+/**
+ * Abort signal that fires when the caller's signal does or when `timeoutMs`
+ * passes (never when it is 0). `disarm` stops the timer only; call `clear`
+ * once the request is done.
+ */
+function deadlineSignal(
+  url: string,
+  timeoutMs: number,
+  signal?: AbortSignal
+): { signal: AbortSignal; disarm: () => void; clear: () => void } {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal.reason);
+  if (signal?.aborted) {
+    onAbort();
+  }
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const timer = timeoutMs > 0
+    ? setTimeout(() => controller.abort(new RequestTimeoutError(url, timeoutMs)), timeoutMs)
+    : undefined;
+
+  return {
+    signal: controller.signal,
+    disarm: () => clearTimeout(timer),
+    clear: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * Join a base URL and a path without doubling slashes
+ */
+export function joinUrl(baseUrl: string, path: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+}
+
+/**
+ * POST a JSON body and parse the JSON response, giving up with a
+ * RequestTimeoutError when the whole response takes longer than `timeoutMs`
+ */
+export async function postJSON<T = any>(
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+  signal?: AbortSignal,
+  timeoutMs: number = DEFAULT_REQUEST_TIMEOUT_MS
+): Promise<T> {
+  const deadline = deadlineSignal(url, timeoutMs, signal);
+  let response: Response;
+  let text: string;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: deadline.signal,
+    });
+    text = await response.text();
+  } finally {
+    deadline.clear();
+  }
+
+  if (!response.ok) {
+    throw new HttpError(url, response.status, text);
+  }
+
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new Error(`Invalid JSON response from ${url}`);
+  }
+}
+
+/**
+ * POST a JSON body and yield the response body line by line. `timeoutMs`
+ * bounds the wait for the response to start, not the whole stream.
+ */
+export async function* postStreamLines(
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+  signal?: AbortSignal,
+  timeoutMs: number = DEFAULT_REQUEST_TIMEOUT_MS
+): AsyncGenerator<string> {
+  const deadline = deadlineSignal(url, timeoutMs, signal);
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: deadline.signal,
+    });
+    deadline.disarm();
+
+    if (!response.ok || !response.body) {
+      throw new HttpError(url, response.status, await response.text());
+    }
+
+    const decoder = new TextDecoder();
+    let buffered = '';
+
+    for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+      buffered += decoder.decode(chunk, { stream: true });
+      const lines = buffered.split('\n');
+      buffered = lines.pop() || '';
+      for (const line of lines) {
+        if (line.trim()) yield line.trim();
+      }
+    }
+
+    buffered += decoder.decode();
+    if (buffered.trim()) {
+      yield buffered.trim();
+    }
+  } finally {
+    deadline.clear();
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Index Manifest
+ * Saved indexes are described by `<path>.manifest.json`. Data files are written
+ * under a new generation name and the manifest is replaced last, so a save
+ * either fully happens or leaves the previous index intact.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { IndexFileEntry, IndexManifest } from '../types.js';
+import { hashContent } from './hashing.js';
+
+export const INDEX_FORMAT_VERSION = 2;
+
+/**
+ * Path of the manifest for an index path
+ */
+export function manifestPath(indexPath: string): string {
+  return `${indexPath}.manifest.json`;
+}
+
+/**
+ * Files of an index saved before manifests existed: a FAISS file at the index
+ * path itself, next to its documents and keyword index
+ */
+export function legacyIndexFiles(indexPath: string): { vectors: string; documents: string; keywords: string } {
+  return {
+    vectors: indexPath,
+    documents: `${indexPath}.docs.json`,
+    keywords: `${indexPath}.bm25.json`,
+  };
+}
+
+/**
+ * Check whether an index has been saved at a path, in either format
+ */
+export function indexExists(indexPath: string): boolean {
+  const legacy = legacyIndexFiles(indexPath);
+  return fs.existsSync(manifestPath(indexPath)) ||
+    (fs.existsSync(legacy.vectors) && fs.existsSync(legacy.documents));
+}
+
+/**
+ * Read the manifest of an index, or null if it was saved without one
+ */
+export function readManifest(indexPath: string): IndexManifest | null {
+  const file = manifestPath(indexPath);
+  if (!fs.existsSync(file)) {
+    return null;
+  }
+
+  let manifest: IndexManifest;
+  try {
+    manifest = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Invalid index manifest ${file}: ${error.message}`);
+  }
+
+  if (typeof manifest.formatVersion !== 'number' || !manifest.files) {
+    throw new Error(`Invalid index manifest ${file}`);
+  }
+  if (manifest.formatVersion > INDEX_FORMAT_VERSION) {
+    throw new Error(
+      `Index ${indexPath} uses format version ${manifest.formatVersion}; ` +
+      `this version reads up to ${INDEX_FORMAT_VERSION}`
+    );
+  }
+  return manifest;
+}
+
+/**
+ * Write a file through a temporary file and a rename, so readers never see a partial write.
+ * `write` receives the temporary path; the result is described for the manifest.
+ */
+export function writeFileAtomic(file: string, write: (tempFile: string) => void): IndexFileEntry {
+  const tempFile = `${file}.tmp-${process.pid}`;
+  try {
+    write(tempFile);
+
+    // Flush to disk before the rename makes the file visible
+    const fd = fs.openSync(tempFile, 'r+');
+    try {
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    const contents = fs.readFileSync(tempFile);
+    fs.renameSync(tempFile, file);
+    return { file: path.basename(file), sha256: hashContent(contents), bytes: contents.length };
+  } catch (error) {
+    fs.rmSync(tempFile, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Read a file listed in a manifest, checking its size and checksum
+ */
+export function readIndexFile(indexPath: string, entry: IndexFileEntry): Buffer {
+  const file = path.join(path.dirname(indexPath), entry.file);
+  if (!fs.existsSync(file)) {
+    throw new Error(`Index file ${file} is missing`);
+  }
+
+  const contents = fs.readFileSync(file);
+  if (contents.length !== entry.bytes || hashContent(contents) !== entry.sha256) {
+    throw new Error(`Index file ${file} does not match its checksum in ${manifestPath(indexPath)}`);
+  }
+  return contents;
+}
+
+/**
+ * Delete files that no longer belong to the current manifest
+ */
+export function removeIndexFiles(indexPath: string, files: string[], keep: IndexManifest): void {
+  const current = new Set(Object.values(keep.files).map(entry => entry.file));
+  for (const file of files) {
+    const name = path.basename(file);
+    if (!current.has(name)) {
+      fs.rmSync(path.join(path.dirname(indexPath), name), { force: true });
+    }
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Ingestion Job Queue
+ * Runs uploads in the background and tracks their progress until they finish
+ */
+
+import { randomUUID } from 'crypto';
+import { IngestionJob, JobProgress, JobStage } from '../types.js';
+import { EmbeddingBatchError } from './embeddings.js';
+import { logger } from './logger.js';
+
+const DEFAULT_RETENTION_MS = 60 * 60 * 1000;
+
+// Share of the progress bar reached when each stage starts; embedding fills most of it
+const STAGE_PERCENT: Record<JobStage, number> = {
+  queued: 0,
+  extracting: 0,
+  chunking: 10,
+  embedding: 20,
+  indexing: 95,
+  done: 100,
+};
+
+export interface JobContext {
+  /**
+   * Aborted when the job is cancelled
+   */
+  signal: AbortSignal;
+  /**
+   * Record progress; the percentage is derived from the stage and the embedded count
+   */
+  update(progress: Partial<JobProgress>): void;
+}
+
+export type JobTask = (context: JobContext) => Promise<IngestionJob['result']>;
+
+interface JobQueueOptions {
+  /**
+   * Jobs run at once; 1 keeps uploads of the same source from interleaving
+   */
+  concurrency?: number;
+  /**
+   * How long finished jobs stay available for polling
+   */
+  retentionMs?: number;
+}
+
+export class JobQueue {
+  private jobs: Map<string, IngestionJob> = new Map();
+  private controllers: Map<string, AbortController> = new Map();
+  private pending: Array<{ job: IngestionJob; task: JobTask }> = [];
+  private running = 0;
+  private concurrency: number;
+  private retentionMs: number;
+  private sweepTimer: NodeJS.Timeout;
+
+  constructor(options: JobQueueOptions = {}) {
+    this.concurrency = Math.max(1, options.concurrency || 1);
+    this.retentionMs = options.retentionMs || DEFAULT_RETENTION_MS;
+
+    // Sweep old finished jobs periodically without keeping the process alive
+    this.sweepTimer = setInterval(() => this.sweep(), Math.min(this.retentionMs, 60 * 1000));
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Queue a task and return its job right away
+   */
+  enqueue(
+    details: Pick<IngestionJob, 'collection' | 'filename' | 'format' | 'keyId' | 'acl'>,
+    task: JobTask
+  ): IngestionJob {
+    const job: IngestionJob = {
+      id: randomUUID(),
+      ...details,
+      status: 'queued',
+      progress: {
+        stage: 'queued',
+        characters: null,
+        pages: null,
+        chunks: null,
+        embedded: 0,
+        toEmbed: null,
+        percent: 0,
+      },
+      result: null,
+      error: null,
+      createdAt: new Date().toISOString(),
+      startedAt: null,
+      finishedAt: null,
+    };
+
+    this.jobs.set(job.id, job);
+    this.controllers.set(job.id, new AbortController());
+    this.pending.push({ job, task });
+    this.drain();
+    return job;
+  }
+
+  /**
+   * Get a job, or undefined if it does not exist or has been swept
+   */
+  get(id: string): IngestionJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  /**
+   * List jobs, newest first
+   */
+  list(): IngestionJob[] {
+    return [...this.jobs.values()].reverse();
+  }
+
+  /**
+   * Cancel a job. A queued job is dropped at once; a running job stops at its
+   * next checkpoint and is marked cancelled then. Returns undefined for unknown jobs.
+   */
+  cancel(id: string): IngestionJob | undefined {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return undefined;
+    }
+
+    if (job.status === 'queued') {
+      this.pending = this.pending.filter(entry => entry.job !== job);
+      this.controllers.delete(id);
+      job.status = 'cancelled';
+      job.finishedAt = new Date().toISOString();
+    } else if (job.status === 'running') {
+      this.controllers.get(id)?.abort();
+    }
+    return job;
+  }
+
+  /**
+   * Stop the background sweep
+   */
+  close(): void {
+    clearInterval(this.sweepTimer);
+  }
+
+  private drain(): void {
+    while (this.running < this.concurrency && this.pending.length > 0) {
+      const { job, task } = this.pending.shift();
+      void this.run(job, task);
+    }
+  }
+
+  private async run(job: IngestionJob, task: JobTask): Promise<void> {
+    this.running++;
+    const controller = this.controllers.get(job.id);
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+
+    try {
+      job.result = await task({
+        signal: controller.signal,
+        update: progress => this.updateProgress(job, progress),
+      });
+      job.status = 'completed';
+      this.updateProgress(job, { stage: 'done' });
+    } catch (error: any) {
+      if (controller.signal.aborted) {
+        logger.log(`Job ${job.id} (${job.filename}) cancelled`);
+        job.status = 'cancelled';
+      } else {
+        logger.error(`Job ${job.id} (${job.filename}) failed:`, error);
+        job.status = 'failed';
+        job.error = error.message || String(error);
+        if (error instanceof EmbeddingBatchError) {
+          job.failedChunks = error.failures;
+        }
+      }
+    } finally {
+      job.finishedAt = new Date().toISOString();
+      this.controllers.delete(job.id);
+      this.running--;
+      this.drain();
+    }
+  }
+
+  private updateProgress(job: IngestionJob, progress: Partial<JobProgress>): void {
+    const next = { ...job.progress, ...progress };
+    const start = STAGE_PERCENT[next.stage];
+    const embedding = next.stage === 'embedding' && next.toEmbed
+      ? (STAGE_PERCENT.indexing - start) * (next.embedded / next.toEmbed)
+      : 0;
+    next.percent = Math.round(start + embedding);
+    job.progress = next;
+  }
+
+  private sweep(): void {
+    const cutoff = Date.now() - this.retentionMs;
+    for (const [id, job] of this.jobs) {
+      if (job.finishedAt && Date.parse(job.finishedAt) <= cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
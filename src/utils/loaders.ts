@@ -0,0 +1,367 @@
+/**
+ * Document Loaders
+ * Turn uploaded files into documents, picking a loader by extension or MIME type
+ */
+
+import * as path from 'path';
+import { Document, DocumentFormat, ChunkStrategy, ExtractionHooks } from '../types.js';
+import { chunkWithMetadata, ChunkingOptions, DEFAULT_CHUNK_SIZE, DEFAULT_OVERLAP } from './chunking.js';
+import { pdfBufferToDocuments } from './pdfProcessor.js';
+import { toToon } from './toon.js';
+import { hashContent } from './hashing.js';
+import { logger } from './logger.js';
+
+let mammoth: any = null;
+
+// Dynamically import mammoth, which is only needed for Word documents
+async function getMammoth() {
+  if (!mammoth) {
+    mammoth = (await import('mammoth')).default;
+  }
+  return mammoth;
+}
+
+export type LoadOptions = ChunkingOptions & ExtractionHooks;
+
+export interface DocumentLoader {
+  format: DocumentFormat;
+  extensions: string[];
+  mimeTypes: string[];
+  /**
+   * Chunking strategy used when the upload does not choose one; null for formats loaded as rows
+   */
+  defaultStrategy: ChunkStrategy | null;
+  load(buffer: Buffer, filename: string, options: LoadOptions): Promise<Document[]>;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1] === 'x' || code[1] === 'X'
+        ? parseInt(code.slice(2), 16)
+        : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+    }
+    return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Convert HTML to plain text, keeping headings as Markdown so structure-aware chunking can use them
+ */
+function htmlToText(html: string): string {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|template|head)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<h([1-6])\b[^>]*>/gi, (_, level: string) => `\n\n${'#'.repeat(Number(level))} `)
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<\/?(p|div|section|article|header|footer|main|nav|aside|ul|ol|table|tr|blockquote|pre|h[1-6])\b[^>]*>/gi, '\n\n')
+    .replace(/<\/t[dh]>/gi, '\t')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function htmlTitle(html: string): string | null {
+  const match = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i);
+  return match ? decodeEntities(match[1]).trim() || null : null;
+}
+
+function markdownTitle(text: string): string | null {
+  const match = text.match(/^#[ \t]+(.+)$/m);
+  return match ? match[1].trim() : null;
+}
+
+function decodeText(buffer: Buffer): string {
+  return buffer.toString('utf-8').replace(/^\uFEFF/, '');
+}
+
+/**
+ * Parse CSV (RFC 4180 quoting) into rows of cells
+ */
+function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell.length > 0 || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim().length > 0));
+}
+
+/**
+ * Read numeric and boolean cells as such, so metadata filters can compare them
+ */
+function parseCell(value: string): string | number | boolean | null {
+  const trimmed = value.trim();
+  if (trimmed === '') return null;
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) return Number(trimmed);
+  if (trimmed === 'true' || trimmed === 'false') return trimmed === 'true';
+  return trimmed;
+}
+
+/**
+ * Chunk extracted text into documents
+ */
+async function textToDocuments(
+  text: string,
+  filename: string,
+  metadata: Record<string, any>,
+  options: LoadOptions
+): Promise<Document[]> {
+  options.onExtracted?.({ characters: text.length });
+  const chunks = await chunkWithMetadata(text, { source: filename, ...metadata }, options);
+
+  return chunks.map((chunk, index) => ({
+    id: `${filename}-chunk-${index}`,
+    content: chunk.text,
+    metadata: chunk.metadata,
+  }));
+}
+
+/**
+ * Check whether a record has any field that is not null or an empty string
+ */
+function hasValues(row: Record<string, any>): boolean {
+  return Object.values(row).some(value => value !== null && value !== undefined && value !== '');
+}
+
+/**
+ * Turn structured records into one document each, skipping empty records
+ * (such as `{}` or a CSV line of empty cells), which have nothing to embed.
+ * The content is the record in TOON, and the record itself is kept in metadata for filtering.
+ */
+function rowsToDocuments(
+  records: Array<Record<string, any>>,
+  filename: string,
+  metadata: Record<string, any>
+): Document[] {
+  const rows = records.filter(hasValues);
+  return rows.map((row, index) => ({
+    id: `${filename}-row-${index}`,
+    content: toToon(row),
+    metadata: {
+      source: filename,
+      ...metadata,
+      chunkIndex: index,
+      totalChunks: rows.length,
+      row,
+    },
+  }));
+}
+
+const pdfLoader: DocumentLoader = {
+  format: 'pdf',
+  extensions: ['.pdf'],
+  mimeTypes: ['application/pdf'],
+  defaultStrategy: 'paragraph',
+  async load(buffer, filename, options) {
+    const documents = await pdfBufferToDocuments(
+      buffer,
+      filename,
+      options.chunkSize ?? DEFAULT_CHUNK_SIZE,
+      options.overlap ?? DEFAULT_OVERLAP,
+      options
+    );
+    return documents.map(doc => ({ ...doc, metadata: { ...doc.metadata, format: 'pdf' } }));
+  },
+};
+
+const markdownLoader: DocumentLoader = {
+  format: 'markdown',
+  extensions: ['.md', '.markdown'],
+  mimeTypes: ['text/markdown', 'text/x-markdown'],
+  defaultStrategy: 'markdown',
+  async load(buffer, filename, options) {
+    const text = decodeText(buffer);
+    return textToDocuments(text, filename, { format: 'markdown', title: markdownTitle(text) }, options);
+  },
+};
+
+const htmlLoader: DocumentLoader = {
+  format: 'html',
+  extensions: ['.html', '.htm'],
+  mimeTypes: ['text/html', 'application/xhtml+xml'],
+  defaultStrategy: 'markdown',
+  async load(buffer, filename, options) {
+    const html = decodeText(buffer);
+    return textToDocuments(htmlToText(html), filename, { format: 'html', title: htmlTitle(html) }, options);
+  },
+};
+
+const docxLoader: DocumentLoader = {
+  format: 'docx',
+  extensions: ['.docx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  defaultStrategy: 'markdown',
+  async load(buffer, filename, options) {
+    // Word heading styles become <h1>-<h6>, which htmlToText keeps as Markdown headings
+    const { value: html } = await (await getMammoth()).convertToHtml({ buffer });
+    const text = htmlToText(html);
+    return textToDocuments(text, filename, { format: 'docx', title: markdownTitle(text) }, options);
+  },
+};
+
+const textLoader: DocumentLoader = {
+  format: 'text',
+  extensions: ['.txt', '.text', '.log'],
+  mimeTypes: ['text/plain'],
+  defaultStrategy: 'paragraph',
+  async load(buffer, filename, options) {
+    return textToDocuments(decodeText(buffer), filename, { format: 'text' }, options);
+  },
+};
+
+const csvLoader: DocumentLoader = {
+  format: 'csv',
+  extensions: ['.csv'],
+  mimeTypes: ['text/csv', 'application/csv'],
+  defaultStrategy: null,
+  async load(buffer, filename, options) {
+    const text = decodeText(buffer);
+    options.onExtracted?.({ characters: text.length });
+    const [header, ...records] = parseCSV(text);
+    if (!header) {
+      return [];
+    }
+
+    const columns = header.map((name, i) => name.trim() || `column${i + 1}`);
+    const rows = records.map(cells => {
+      const row: Record<string, string | number | boolean | null> = {};
+      columns.forEach((column, i) => {
+        row[column] = parseCell(cells[i] ?? '');
+      });
+      return row;
+    });
+
+    return rowsToDocuments(rows, filename, { format: 'csv', columns });
+  },
+};
+
+const jsonLoader: DocumentLoader = {
+  format: 'json',
+  extensions: ['.json'],
+  mimeTypes: ['application/json'],
+  defaultStrategy: null,
+  async load(buffer, filename, options) {
+    const text = decodeText(buffer);
+    options.onExtracted?.({ characters: text.length });
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (error: any) {
+      throw new Error(`Invalid JSON in ${filename}: ${error.message}`);
+    }
+
+    // An array holds one record per element; any other value is a single record
+    const records = Array.isArray(data) ? data : [data];
+    const rows = records.map(record =>
+      record !== null && typeof record === 'object' && !Array.isArray(record)
+        ? record as Record<string, any>
+        : { value: record }
+    );
+
+    return rowsToDocuments(rows, filename, { format: 'json' });
+  },
+};
+
+const loaders: DocumentLoader[] = [
+  pdfLoader,
+  markdownLoader,
+  htmlLoader,
+  docxLoader,
+  textLoader,
+  csvLoader,
+  jsonLoader,
+];
+
+export const SUPPORTED_EXTENSIONS = loaders.flatMap(loader => loader.extensions);
+
+/**
+ * Find the loader for a file. The extension wins over the MIME type,
+ * since browsers often report Markdown and CSV as text/plain or octet-stream.
+ */
+export function getLoader(filename: string, mimeType?: string): DocumentLoader | undefined {
+  const extension = path.extname(filename).toLowerCase();
+  const byExtension = loaders.find(loader => loader.extensions.includes(extension));
+  if (byExtension) {
+    return byExtension;
+  }
+
+  const baseType = mimeType?.split(';')[0].trim().toLowerCase();
+  return loaders.find(loader => baseType !== undefined && loader.mimeTypes.includes(baseType));
+}
+
+/**
+ * Load a file into documents with the matching loader
+ */
+export async function loadDocuments(
+  buffer: Buffer,
+  filename: string,
+  mimeType?: string,
+  options: LoadOptions = {}
+): Promise<Document[]> {
+  const loader = getLoader(filename, mimeType);
+  if (!loader) {
+    throw new Error(`Unsupported file type: ${filename}`);
+  }
+
+  try {
+    const documents = await loader.load(buffer, filename, options);
+    const fileHash = hashContent(buffer);
+    return documents.map(doc => ({
+      ...doc,
+      metadata: { ...doc.metadata, mimeType: loader.mimeTypes[0], fileHash },
+    }));
+  } catch (error) {
+    logger.error(`Error loading ${filename}:`, error);
+    throw error;
+  }
+}
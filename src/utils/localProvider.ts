@@ -0,0 +1,122 @@
+/**
+ * Local Providers
+ * Deterministic, offline embeddings and extractive answers for CI and
+ * air-gapped machines. No network access or API key is needed.
+ */
+
+import { ChatProvider, ChatRequest, ChatStreamChunk, EmbeddingProvider } from '../types.js';
+import { tokenize, splitSentences } from './tokenizer.js';
+
+const DEFAULT_LOCAL_DIMENSION = 384;
+const MAX_ANSWER_SENTENCES = 3;
+
+export const NO_ANSWER_MESSAGE =
+  'The provided context does not contain enough information to answer the question.';
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string, seed: number = 0x811c9dc5): number {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Bag-of-words embedder using the hashing trick.
+ * Each term and adjacent term pair is hashed into a signed bucket, and the
+ * vector is L2-normalized so that L2 distance and cosine similarity agree.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  private dimension: number;
+
+  constructor(dimension: number = DEFAULT_LOCAL_DIMENSION) {
+    if (!Number.isInteger(dimension) || dimension <= 0) {
+      throw new Error('Dimension must be a positive integer');
+    }
+    this.dimension = dimension;
+  }
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    const vector = new Array<number>(this.dimension).fill(0);
+    const terms = tokenize(text);
+    const features = [...terms];
+    for (let i = 0; i < terms.length - 1; i++) {
+      features.push(`${terms[i]} ${terms[i + 1]}`);
+    }
+
+    for (const feature of features) {
+      const hash = fnv1a(feature);
+      const sign = fnv1a(feature, hash) & 1 ? 1 : -1;
+      vector[hash % this.dimension] += sign;
+    }
+
+    const magnitude = Math.sqrt(vector.reduce((sum, val) => sum + val * val, 0));
+    return magnitude === 0 ? vector : vector.map(val => val / magnitude);
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    return Promise.all(texts.map(text => this.generateEmbedding(text)));
+  }
+
+  getDimension(): number {
+    return this.dimension;
+  }
+
+  getModelName(): string {
+    return `local-hash-${this.dimension}`;
+  }
+}
+
+/**
+ * Extractive answerer.
+ * Returns the context sentences that share the most terms with the question.
+ * Requests without passages (e.g. rewrite prompts) echo the question back.
+ */
+export class LocalChatProvider implements ChatProvider {
+  async generate(request: ChatRequest): Promise<string> {
+    const question = request.question || request.prompt;
+    if (!request.passages) {
+      return question.trim();
+    }
+
+    const questionTerms = new Set(tokenize(question));
+    const candidates = request.passages
+      .flatMap(passage => splitSentences(passage))
+      .map((sentence, position) => {
+        const terms = new Set(tokenize(sentence));
+        let overlap = 0;
+        for (const term of terms) {
+          if (questionTerms.has(term)) overlap++;
+        }
+        return { sentence, position, overlap };
+      })
+      .filter(candidate => candidate.overlap > 0);
+
+    if (candidates.length === 0) {
+      return NO_ANSWER_MESSAGE;
+    }
+
+    return candidates
+      .sort((a, b) => b.overlap - a.overlap || a.position - b.position)
+      .slice(0, MAX_ANSWER_SENTENCES)
+      .sort((a, b) => a.position - b.position)
+      .map(candidate => candidate.sentence)
+      .join(' ');
+  }
+
+  async *generateStream(request: ChatRequest, signal?: AbortSignal): AsyncIterable<ChatStreamChunk> {
+    const answer = await this.generate(request);
+    for (const word of answer.match(/\S+\s*/g) || []) {
+      if (signal?.aborted) return;
+      yield { text: word };
+    }
+  }
+
+  getModelName(): string {
+    return 'local-extractive';
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Logger
+ * Library logging goes through one shared logger, so an application with
+ * its own output (like the CLI) can turn it off
+ */
+
+export class Logger {
+  /**
+   * Drop every message
+   */
+  quiet = false;
+
+  log(...args: unknown[]): void {
+    if (!this.quiet) console.log(...args);
+  }
+
+  warn(...args: unknown[]): void {
+    if (!this.quiet) console.warn(...args);
+  }
+
+  error(...args: unknown[]): void {
+    if (!this.quiet) console.error(...args);
+  }
+}
+
+export const logger = new Logger();
@@ -0,0 +1,167 @@
+/**
+ * Metadata Filtering
+ * Mongo-style filter expressions evaluated against Document.metadata
+ *
+ * Examples:
+ *   { source: 'a.pdf' }
+ *   { source: { $in: ['a.pdf', 'b.pdf'] } }
+ *   { uploadedAt: { $gte: '2024-01-01' } }
+ *   { $or: [{ pages: { $lt: 10 } }, { title: 'Manual' }] }
+ */
+
+import { Document, MetadataFilter, FilterValue } from '../types.js';
+
+const COMPARISON_OPERATORS = ['$eq', '$ne', '$in', '$nin', '$gt', '$gte', '$lt', '$lte', '$exists'];
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFilterValue(value: unknown): value is FilterValue {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+/**
+ * Check that a filter is well formed, throwing a descriptive error if not
+ */
+export function validateFilter(filter: unknown, path: string = 'filter'): asserts filter is MetadataFilter {
+  if (!isPlainObject(filter)) {
+    throw new Error(`${path} must be an object`);
+  }
+
+  for (const [key, condition] of Object.entries(filter)) {
+    if (key === '$and' || key === '$or') {
+      if (!Array.isArray(condition) || condition.length === 0) {
+        throw new Error(`${path}.${key} must be a non-empty array`);
+      }
+      condition.forEach((sub, i) => validateFilter(sub, `${path}.${key}[${i}]`));
+      continue;
+    }
+
+    if (key === '$not') {
+      validateFilter(condition, `${path}.$not`);
+      continue;
+    }
+
+    if (key.startsWith('$')) {
+      throw new Error(`${path} has unknown operator ${key}`);
+    }
+
+    if (isFilterValue(condition)) {
+      continue;
+    }
+
+    if (!isPlainObject(condition)) {
+      throw new Error(`${path}.${key} must be a value or an operator object`);
+    }
+
+    for (const [operator, operand] of Object.entries(condition)) {
+      if (!COMPARISON_OPERATORS.includes(operator)) {
+        throw new Error(`${path}.${key} has unknown operator ${operator}`);
+      }
+      if (operator === '$in' || operator === '$nin') {
+        if (!Array.isArray(operand) || !operand.every(isFilterValue)) {
+          throw new Error(`${path}.${key}.${operator} must be an array of values`);
+        }
+      } else if (operator === '$exists') {
+        if (typeof operand !== 'boolean') {
+          throw new Error(`${path}.${key}.$exists must be a boolean`);
+        }
+      } else if (!isFilterValue(operand)) {
+        throw new Error(`${path}.${key}.${operator} must be a value`);
+      }
+    }
+  }
+}
+
+/**
+ * Compare two values for range operators.
+ * Numbers compare numerically; strings that both parse as dates compare as dates.
+ * Returns null when the values are not comparable.
+ */
+function compare(a: unknown, b: unknown): number | null {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+
+  if (typeof a === 'string' && typeof b === 'string') {
+    const timeA = Date.parse(a);
+    const timeB = Date.parse(b);
+    if (!Number.isNaN(timeA) && !Number.isNaN(timeB)) {
+      return timeA - timeB;
+    }
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  return null;
+}
+
+function matchesCondition(value: unknown, condition: any): boolean {
+  if (isFilterValue(condition)) {
+    return value === condition;
+  }
+
+  return Object.entries(condition).every(([operator, operand]) => {
+    switch (operator) {
+      case '$eq':
+        return value === operand;
+      case '$ne':
+        return value !== operand;
+      case '$in':
+        return (operand as FilterValue[]).includes(value as FilterValue);
+      case '$nin':
+        return !(operand as FilterValue[]).includes(value as FilterValue);
+      case '$exists':
+        return (value !== undefined) === operand;
+      default: {
+        const order = compare(value, operand);
+        if (order === null) return false;
+        if (operator === '$gt') return order > 0;
+        if (operator === '$gte') return order >= 0;
+        if (operator === '$lt') return order < 0;
+        return order <= 0;
+      }
+    }
+  });
+}
+
+/**
+ * Read a metadata field; dotted keys such as `row.age` reach into nested objects
+ */
+function getField(metadata: Record<string, any>, key: string): unknown {
+  if (key in metadata || !key.includes('.')) {
+    return metadata[key];
+  }
+  return key.split('.').reduce<any>((value, part) => (value == null ? undefined : value[part]), metadata);
+}
+
+/**
+ * Check whether a document's metadata satisfies a filter
+ */
+export function matchesFilter(doc: Document, filter: MetadataFilter): boolean {
+  const metadata = doc.metadata || {};
+
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === '$and') {
+      return (condition as MetadataFilter[]).every(sub => matchesFilter(doc, sub));
+    }
+    if (key === '$or') {
+      return (condition as MetadataFilter[]).some(sub => matchesFilter(doc, sub));
+    }
+    if (key === '$not') {
+      return !matchesFilter(doc, condition as MetadataFilter);
+    }
+    return matchesCondition(getField(metadata, key), condition);
+  });
+}
+
+/**
+ * Combine filters so a document must satisfy all of them; undefined when none is given
+ */
+export function combineFilters(...filters: Array<MetadataFilter | undefined>): MetadataFilter | undefined {
+  const present = filters.filter((filter): filter is MetadataFilter => filter !== undefined);
+  if (present.length <= 1) {
+    return present[0];
+  }
+  return { $and: present };
+}
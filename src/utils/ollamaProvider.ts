@@ -0,0 +1,133 @@
+/**
+ * Ollama Providers
+ * Embeddings and completions through Ollama's `/api/embeddings` and `/api/generate`
+ */
+
+import { ChatProvider, ChatRequest, ChatStreamChunk, EmbeddingProvider } from '../types.js';
+import { postJSON, postStreamLines, joinUrl, DEFAULT_REQUEST_TIMEOUT_MS } from './httpClient.js';
+import { resolveEmbeddingDimension } from './embeddingDimensions.js';
+import { mapWithConcurrency } from './rateLimit.js';
+
+export const DEFAULT_OLLAMA_BASE_URL = 'http://localhost:11434';
+
+// `/api/embeddings` takes one text per request; a batch sends this many at once
+const EMBEDDING_REQUEST_CONCURRENCY = 4;
+
+export interface OllamaProviderOptions {
+  baseUrl?: string;
+  model?: string;
+  dimension?: number;
+  /**
+   * Milliseconds to wait for a response before giving up; 0 waits indefinitely
+   */
+  timeoutMs?: number;
+}
+
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  private baseUrl: string;
+  private modelName: string;
+  private dimension: number;
+  private timeoutMs: number;
+
+  constructor(options: OllamaProviderOptions = {}) {
+    this.baseUrl = options.baseUrl || DEFAULT_OLLAMA_BASE_URL;
+    this.modelName = options.model || 'nomic-embed-text';
+    this.dimension = resolveEmbeddingDimension(this.modelName, options.dimension);
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+  }
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    const result = await postJSON<{ embedding?: number[] }>(
+      joinUrl(this.baseUrl, 'api/embeddings'),
+      { model: this.modelName, prompt: text },
+      {},
+      undefined,
+      this.timeoutMs
+    );
+
+    if (!Array.isArray(result.embedding)) {
+      throw new Error('Invalid embedding response format');
+    }
+    return result.embedding;
+  }
+
+  /**
+   * Embed each text through the same endpoint as a single text, so batched
+   * and single embeddings come from one model output and compare exactly
+   */
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    const results = await mapWithConcurrency(texts, EMBEDDING_REQUEST_CONCURRENCY, text => this.generateEmbedding(text));
+    return results.map(result => {
+      if (result.status === 'rejected') {
+        throw result.reason;
+      }
+      return result.value;
+    });
+  }
+
+  getDimension(): number {
+    return this.dimension;
+  }
+
+  getModelName(): string {
+    return this.modelName;
+  }
+}
+
+export class OllamaChatProvider implements ChatProvider {
+  private baseUrl: string;
+  private modelName: string;
+  private timeoutMs: number;
+
+  constructor(options: OllamaProviderOptions = {}) {
+    this.baseUrl = options.baseUrl || DEFAULT_OLLAMA_BASE_URL;
+    this.modelName = options.model || 'llama3.1';
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+  }
+
+  async generate(request: ChatRequest, signal?: AbortSignal): Promise<string> {
+    const result = await postJSON<{ response?: string }>(
+      joinUrl(this.baseUrl, 'api/generate'),
+      { model: this.modelName, prompt: request.prompt, stream: false },
+      {},
+      signal,
+      this.timeoutMs
+    );
+
+    if (typeof result.response !== 'string') {
+      throw new Error('Invalid generate response format');
+    }
+    return result.response;
+  }
+
+  async *generateStream(request: ChatRequest, signal?: AbortSignal): AsyncIterable<ChatStreamChunk> {
+    const lines = postStreamLines(
+      joinUrl(this.baseUrl, 'api/generate'),
+      { model: this.modelName, prompt: request.prompt, stream: true },
+      {},
+      signal,
+      this.timeoutMs
+    );
+
+    // Ollama streams one JSON object per line; the last one has `done: true` and the counts
+    for await (const line of lines) {
+      const event = JSON.parse(line);
+      if (event.response) {
+        yield { text: event.response };
+      }
+      if (event.done) {
+        yield {
+          usage: {
+            promptTokens: event.prompt_eval_count || 0,
+            completionTokens: event.eval_count || 0,
+            estimated: false,
+          },
+        };
+      }
+    }
+  }
+
+  getModelName(): string {
+    return this.modelName;
+  }
+}
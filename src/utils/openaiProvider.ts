@@ -0,0 +1,149 @@
+/**
+ * OpenAI-Compatible Providers
+ * Embeddings and chat completions against any server implementing
+ * `/v1/embeddings` and `/v1/chat/completions`
+ */
+
+import { ChatProvider, ChatRequest, ChatStreamChunk, EmbeddingProvider } from '../types.js';
+import { postJSON, postStreamLines, joinUrl, DEFAULT_REQUEST_TIMEOUT_MS } from './httpClient.js';
+import { resolveEmbeddingDimension } from './embeddingDimensions.js';
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+export interface OpenAIProviderOptions {
+  /**
+   * Base URL including the version prefix, e.g. http://localhost:8000/v1
+   */
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+  dimension?: number;
+  /**
+   * Milliseconds to wait for a response before giving up; 0 waits indefinitely
+   */
+  timeoutMs?: number;
+}
+
+function authHeaders(apiKey?: string): Record<string, string> {
+  return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+}
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  private baseUrl: string;
+  private apiKey?: string;
+  private modelName: string;
+  private dimension: number;
+  private timeoutMs: number;
+
+  constructor(options: OpenAIProviderOptions = {}) {
+    this.baseUrl = options.baseUrl || DEFAULT_OPENAI_BASE_URL;
+    this.apiKey = options.apiKey;
+    this.modelName = options.model || 'text-embedding-3-small';
+    this.dimension = resolveEmbeddingDimension(this.modelName, options.dimension);
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+  }
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    const [embedding] = await this.generateEmbeddings([text]);
+    return embedding;
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    const result = await postJSON<{ data?: Array<{ index: number; embedding: number[] }> }>(
+      joinUrl(this.baseUrl, 'embeddings'),
+      { model: this.modelName, input: texts },
+      authHeaders(this.apiKey),
+      undefined,
+      this.timeoutMs
+    );
+
+    if (!Array.isArray(result.data) || result.data.length !== texts.length) {
+      throw new Error('Invalid embedding response format');
+    }
+
+    return [...result.data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+
+  getDimension(): number {
+    return this.dimension;
+  }
+
+  getModelName(): string {
+    return this.modelName;
+  }
+}
+
+export class OpenAIChatProvider implements ChatProvider {
+  private baseUrl: string;
+  private apiKey?: string;
+  private modelName: string;
+  private timeoutMs: number;
+
+  constructor(options: OpenAIProviderOptions = {}) {
+    this.baseUrl = options.baseUrl || DEFAULT_OPENAI_BASE_URL;
+    this.apiKey = options.apiKey;
+    this.modelName = options.model || 'gpt-4o-mini';
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+  }
+
+  async generate(request: ChatRequest, signal?: AbortSignal): Promise<string> {
+    const result = await postJSON<{ choices?: Array<{ message?: { content?: string } }> }>(
+      joinUrl(this.baseUrl, 'chat/completions'),
+      {
+        model: this.modelName,
+        messages: [{ role: 'user', content: request.prompt }],
+      },
+      authHeaders(this.apiKey),
+      signal,
+      this.timeoutMs
+    );
+
+    const content = result.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error('Invalid chat completion response format');
+    }
+    return content;
+  }
+
+  async *generateStream(request: ChatRequest, signal?: AbortSignal): AsyncIterable<ChatStreamChunk> {
+    const lines = postStreamLines(
+      joinUrl(this.baseUrl, 'chat/completions'),
+      {
+        model: this.modelName,
+        messages: [{ role: 'user', content: request.prompt }],
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      authHeaders(this.apiKey),
+      signal,
+      this.timeoutMs
+    );
+
+    for await (const line of lines) {
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice('data:'.length).trim();
+      if (data === '[DONE]') break;
+
+      const event = JSON.parse(data);
+      const text = event.choices?.[0]?.delta?.content;
+      if (text) {
+        yield { text };
+      }
+      if (event.usage) {
+        yield {
+          usage: {
+            promptTokens: event.usage.prompt_tokens || 0,
+            completionTokens: event.usage.completion_tokens || 0,
+            estimated: false,
+          },
+        };
+      }
+    }
+  }
+
+  getModelName(): string {
+    return this.modelName;
+  }
+}
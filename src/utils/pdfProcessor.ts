@@ -4,8 +4,10 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { Document } from '../types.js';
-import { chunkWithMetadata } from './chunking.js';
+import { Document, ExtractionHooks } from '../types.js';
+import { chunkWithMetadata, ChunkingOptions } from './chunking.js';
+import { hashContent } from './hashing.js';
+import { logger } from './logger.js';
 
 let pdfParse: any = null;
 
@@ -17,21 +19,62 @@ async function getPdfParse() {
   return pdfParse;
 }
 
+/**
+ * Render one page's text, recording it in page order.
+ * Mirrors pdf-parse's default renderer, which starts a new line whenever
+ * the baseline of a text item changes.
+ */
+function createPageRenderer(pageTexts: string[]) {
+  return async (pageData: any): Promise<string> => {
+    const textContent = await pageData.getTextContent({
+      normalizeWhitespace: false,
+      disableCombineTextItems: false,
+    });
+
+    let lastY: number | undefined;
+    let text = '';
+    for (const item of textContent.items) {
+      text += lastY === item.transform[5] || !lastY ? item.str : '\n' + item.str;
+      lastY = item.transform[5];
+    }
+
+    const pageIndex = typeof pageData.pageIndex === 'number' ? pageData.pageIndex : pageTexts.length;
+    pageTexts[pageIndex] = text;
+    return text;
+  };
+}
+
+/**
+ * Clean extracted page text
+ */
+function cleanText(text: string): string {
+  return text
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
 /**
  * Extract text from PDF buffer
  */
 export async function extractTextFromPDF(pdfBuffer: Buffer): Promise<{
   text: string;
   pages: number;
+  pageTexts: string[];
   metadata: Record<string, any>;
 }> {
   try {
     const pdfParseModule = await getPdfParse();
-    const data = await pdfParseModule(pdfBuffer);
+    const pageTexts: string[] = [];
+    // Small Buffers are views into a shared pool; pdf.js reads the whole
+    // underlying ArrayBuffer, so hand it an exact copy
+    const data = await pdfParseModule(new Uint8Array(pdfBuffer), {
+      pagerender: createPageRenderer(pageTexts),
+    });
     
     return {
       text: data.text,
       pages: data.numpages,
+      pageTexts: Array.from({ length: data.numpages }, (_, i) => pageTexts[i] || ''),
       metadata: {
         creator: data.info?.Creator || 'Unknown',
         producer: data.info?.Producer || 'Unknown',
@@ -40,48 +83,83 @@ export async function extractTextFromPDF(pdfBuffer: Buffer): Promise<{
       },
     };
   } catch (error) {
-    console.error('Error extracting PDF text:', error);
+    logger.error('Error extracting PDF text:', error);
     throw new Error('Failed to extract text from PDF');
   }
 }
 
+/**
+ * Join cleaned page texts and record where each page starts
+ */
+function joinPages(pageTexts: string[]): { text: string; pageOffsets: number[] } {
+  const pageOffsets: number[] = [];
+  let text = '';
+
+  pageTexts.map(cleanText).forEach((pageText, i) => {
+    if (i > 0 && text.length > 0 && pageText.length > 0) {
+      text += '\n\n';
+    }
+    pageOffsets.push(text.length);
+    text += pageText;
+  });
+
+  return { text, pageOffsets };
+}
+
+/**
+ * Chunk extracted PDF text into documents with page ranges
+ */
+async function extractionToDocuments(
+  extraction: Awaited<ReturnType<typeof extractTextFromPDF>>,
+  filename: string,
+  baseMetadata: Record<string, any>,
+  chunkSize: number,
+  overlap: number,
+  chunking: ChunkingOptions & ExtractionHooks
+): Promise<Document[]> {
+  const { pages, pageTexts, metadata } = extraction;
+  const { text, pageOffsets } = joinPages(pageTexts);
+  chunking.onExtracted?.({ characters: text.length, pages });
+
+  // Chunk the text with metadata
+  const chunks = await chunkWithMetadata(text, {
+    ...baseMetadata,
+    pages: pages,
+    ...metadata,
+  }, { ...chunking, chunkSize, overlap }, pageOffsets);
+
+  // Convert chunks to documents
+  return chunks.map((chunk, index) => ({
+    id: `${filename}-chunk-${index}`,
+    content: chunk.text,
+    metadata: chunk.metadata,
+  }));
+}
+
 /**
  * Convert PDF file to documents
  */
 export async function pdfToDocuments(
   filePath: string,
   chunkSize: number = 1000,
-  overlap: number = 200
+  overlap: number = 200,
+  chunking: ChunkingOptions & ExtractionHooks = {}
 ): Promise<Document[]> {
   try {
     const fileBuffer = fs.readFileSync(filePath);
-    const { text, pages, metadata } = await extractTextFromPDF(fileBuffer);
-    
+    const extraction = await extractTextFromPDF(fileBuffer);
     const filename = path.basename(filePath);
-    
-    // Clean up the text
-    const cleanedText = text
-      .replace(/\n{3,}/g, '\n\n')
-      .trim();
-
-    // Chunk the text with metadata
-    const chunks = chunkWithMetadata(cleanedText, {
-      source: filename,
-      filePath: filePath,
-      pages: pages,
-      ...metadata,
-    }, { chunkSize, overlap });
-
-    // Convert chunks to documents
-    const documents: Document[] = chunks.map((chunk, index) => ({
-      id: `${filename}-chunk-${index}`,
-      content: chunk.text,
-      metadata: chunk.metadata,
-    }));
-
-    return documents;
+
+    return await extractionToDocuments(
+      extraction,
+      filename,
+      { source: filename, filePath: filePath, fileHash: hashContent(fileBuffer) },
+      chunkSize,
+      overlap,
+      chunking
+    );
   } catch (error) {
-    console.error('Error converting PDF to documents:', error);
+    logger.error('Error converting PDF to documents:', error);
     throw error;
   }
 }
@@ -93,33 +171,22 @@ export async function pdfBufferToDocuments(
   buffer: Buffer,
   filename: string,
   chunkSize: number = 1000,
-  overlap: number = 200
+  overlap: number = 200,
+  chunking: ChunkingOptions & ExtractionHooks = {}
 ): Promise<Document[]> {
   try {
-    const { text, pages, metadata } = await extractTextFromPDF(buffer);
-
-    // Clean up the text
-    const cleanedText = text
-      .replace(/\n{3,}/g, '\n\n')
-      .trim();
-
-    // Chunk the text with metadata
-    const chunks = chunkWithMetadata(cleanedText, {
-      source: filename,
-      pages: pages,
-      ...metadata,
-    }, { chunkSize, overlap });
-
-    // Convert chunks to documents
-    const documents: Document[] = chunks.map((chunk, index) => ({
-      id: `${filename}-chunk-${index}`,
-      content: chunk.text,
-      metadata: chunk.metadata,
-    }));
-
-    return documents;
+    const extraction = await extractTextFromPDF(buffer);
+
+    return await extractionToDocuments(
+      extraction,
+      filename,
+      { source: filename, fileHash: hashContent(buffer) },
+      chunkSize,
+      overlap,
+      chunking
+    );
   } catch (error) {
-    console.error('Error converting PDF buffer to documents:', error);
+    logger.error('Error converting PDF buffer to documents:', error);
     throw error;
   }
 }
@@ -130,18 +197,19 @@ export async function pdfBufferToDocuments(
 export async function processPDFFiles(
   filePaths: string[],
   chunkSize: number = 1000,
-  overlap: number = 200
+  overlap: number = 200,
+  chunking: ChunkingOptions & ExtractionHooks = {}
 ): Promise<Document[]> {
   const allDocuments: Document[] = [];
 
   for (const filePath of filePaths) {
     try {
-      console.log(`Processing: ${filePath}`);
-      const documents = await pdfToDocuments(filePath, chunkSize, overlap);
+      logger.log(`Processing: ${filePath}`);
+      const documents = await pdfToDocuments(filePath, chunkSize, overlap, chunking);
       allDocuments.push(...documents);
-      console.log(`✓ Processed ${documents.length} chunks from ${path.basename(filePath)}`);
+      logger.log(`✓ Processed ${documents.length} chunks from ${path.basename(filePath)}`);
     } catch (error) {
-      console.error(`✗ Failed to process ${filePath}:`, error);
+      logger.error(`✗ Failed to process ${filePath}:`, error);
     }
   }
 
@@ -0,0 +1,88 @@
+/**
+ * Provider Factory
+ * Builds embedding and chat providers from configuration
+ */
+
+import { ChatProvider, EmbeddingProvider, ProviderName } from '../types.js';
+import { GeminiEmbeddingProvider, GeminiChatProvider } from './geminiProvider.js';
+import { LocalEmbeddingProvider, LocalChatProvider } from './localProvider.js';
+import { OpenAIEmbeddingProvider, OpenAIChatProvider } from './openaiProvider.js';
+import { OllamaEmbeddingProvider, OllamaChatProvider } from './ollamaProvider.js';
+
+export interface ProviderOptions {
+  provider: ProviderName;
+  apiKey?: string;
+  baseUrl?: string;
+  embeddingModel?: string;
+  llmModel?: string;
+  dimension?: number;
+  /**
+   * Request timeout for the OpenAI-compatible and Ollama providers
+   */
+  timeoutMs?: number;
+}
+
+export const PROVIDER_NAMES: ProviderName[] = ['gemini', 'local', 'openai', 'ollama'];
+
+/**
+ * Check whether a value names a supported provider
+ */
+export function isProviderName(value: unknown): value is ProviderName {
+  return typeof value === 'string' && (PROVIDER_NAMES as string[]).includes(value);
+}
+
+/**
+ * Create the embedding provider for a configuration
+ */
+export function createEmbeddingProvider(options: ProviderOptions): EmbeddingProvider {
+  switch (options.provider) {
+    case 'gemini':
+      return new GeminiEmbeddingProvider(options.apiKey, options.embeddingModel, options.dimension);
+    case 'local':
+      return new LocalEmbeddingProvider(options.dimension);
+    case 'openai':
+      return new OpenAIEmbeddingProvider({
+        baseUrl: options.baseUrl,
+        apiKey: options.apiKey,
+        model: options.embeddingModel,
+        dimension: options.dimension,
+        timeoutMs: options.timeoutMs,
+      });
+    case 'ollama':
+      return new OllamaEmbeddingProvider({
+        baseUrl: options.baseUrl,
+        model: options.embeddingModel,
+        dimension: options.dimension,
+        timeoutMs: options.timeoutMs,
+      });
+    default:
+      throw new Error(`Unknown provider: ${options.provider}`);
+  }
+}
+
+/**
+ * Create the chat provider for a configuration
+ */
+export function createChatProvider(options: ProviderOptions): ChatProvider {
+  switch (options.provider) {
+    case 'gemini':
+      return new GeminiChatProvider(options.apiKey, options.llmModel);
+    case 'local':
+      return new LocalChatProvider();
+    case 'openai':
+      return new OpenAIChatProvider({
+        baseUrl: options.baseUrl,
+        apiKey: options.apiKey,
+        model: options.llmModel,
+        timeoutMs: options.timeoutMs,
+      });
+    case 'ollama':
+      return new OllamaChatProvider({
+        baseUrl: options.baseUrl,
+        model: options.llmModel,
+        timeoutMs: options.timeoutMs,
+      });
+    default:
+      throw new Error(`Unknown provider: ${options.provider}`);
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Query Transforms
+ * Prompts and output parsing for rewriting a question before retrieval:
+ * - `multi-query`: paraphrases searched alongside the question
+ * - `hyde`: a hypothetical answer searched for, as it reads more like the documents
+ * - `decompose`: sub-questions answered one by one and then combined
+ */
+
+import { QueryTransformName, SubQuestion } from '../types.js';
+
+export const QUERY_TRANSFORMS: QueryTransformName[] = ['multi-query', 'hyde', 'decompose'];
+
+/**
+ * Check whether a string names a query transform
+ */
+export function isQueryTransformName(value: unknown): value is QueryTransformName {
+  return typeof value === 'string' && (QUERY_TRANSFORMS as string[]).includes(value);
+}
+
+/**
+ * Read questions listed one per line, dropping numbering, bullets, quotes,
+ * duplicates and any in `exclude`
+ */
+export function parseQuestionList(output: string, max: number, exclude: string[] = []): string[] {
+  const seen = new Set(exclude.map(question => question.trim().toLowerCase()));
+  const questions: string[] = [];
+  for (const line of output.split('\n')) {
+    const question = line
+      .replace(/^\s*(?:[-*•]|\d+[.)]|Q\d*:)\s*/i, '')
+      .replace(/^["'“]|["'”]$/g, '')
+      .trim();
+    const key = question.toLowerCase();
+    if (!question || seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    questions.push(question);
+    if (questions.length === max) {
+      break;
+    }
+  }
+  return questions;
+}
+
+/**
+ * Prompt for alternative wordings of a question
+ */
+export function buildParaphrasePrompt(question: string, count: number): string {
+  return `Write ${count} different versions of the question below to search a document collection. Use other words, synonyms and likely technical terms, and keep the meaning. Return only the questions, one per line, without numbering.
+
+QUESTION: ${question}
+
+QUESTIONS:`;
+}
+
+/**
+ * Prompt for a short passage that could answer a question (HyDE)
+ */
+export function buildHypotheticalAnswerPrompt(question: string): string {
+  return `Write a short passage, as it might appear in a reference document, that answers the question below. Write it even if you are unsure of the facts; it is only used to search for real documents. Return only the passage.
+
+QUESTION: ${question}
+
+PASSAGE:`;
+}
+
+/**
+ * Prompt for splitting a compound question into questions that can be answered separately
+ */
+export function buildDecompositionPrompt(question: string, max: number): string {
+  return `Split the question below into at most ${max} simpler questions that can each be answered on its own and together answer it. If it asks only one thing, return it unchanged. Return only the questions, one per line, without numbering.
+
+QUESTION: ${question}
+
+QUESTIONS:`;
+}
+
+/**
+ * Render sub-questions and their answers for the synthesis prompt
+ */
+export function formatSubAnswers(subQuestions: SubQuestion[]): string {
+  return subQuestions
+    .map((sub, idx) => `${idx + 1}. ${sub.question}\n${sub.answer}`)
+    .join('\n\n');
+}
@@ -0,0 +1,97 @@
+/**
+ * API Key Quotas
+ * Per-key request counts in fixed one-minute windows and token counts per UTC day
+ */
+
+import { ApiKeyQuota } from '../types.js';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export interface QuotaCheck {
+  allowed: boolean;
+  /**
+   * Seconds until the exhausted quota resets
+   */
+  retryAfterSeconds?: number;
+  reason?: string;
+}
+
+interface KeyUsage {
+  minute: number;
+  requests: number;
+  day: number;
+  tokens: number;
+}
+
+export class QuotaTracker {
+  private usage: Map<string, KeyUsage> = new Map();
+
+  /**
+   * Count a request against the key's per-minute quota, refusing it when the quota is used up
+   */
+  takeRequest(keyId: string, quota: ApiKeyQuota = {}): QuotaCheck {
+    const usage = this.current(keyId);
+    if (quota.requestsPerMinute && usage.requests >= quota.requestsPerMinute) {
+      return {
+        allowed: false,
+        retryAfterSeconds: Math.ceil(((usage.minute + 1) * MINUTE_MS - Date.now()) / 1000),
+        reason: `Request quota of ${quota.requestsPerMinute} per minute exceeded`,
+      };
+    }
+    usage.requests++;
+    return { allowed: true };
+  }
+
+  /**
+   * Check that the key has tokens left today. A query that starts with tokens
+   * left may finish over the quota; the next one is refused.
+   */
+  checkTokens(keyId: string, quota: ApiKeyQuota = {}): QuotaCheck {
+    const usage = this.current(keyId);
+    if (quota.tokensPerDay && usage.tokens >= quota.tokensPerDay) {
+      return {
+        allowed: false,
+        retryAfterSeconds: Math.ceil(((usage.day + 1) * DAY_MS - Date.now()) / 1000),
+        reason: `Token quota of ${quota.tokensPerDay} per day exceeded`,
+      };
+    }
+    return { allowed: true };
+  }
+
+  /**
+   * Record tokens used by a query
+   */
+  recordTokens(keyId: string, tokens: number): void {
+    this.current(keyId).tokens += tokens;
+  }
+
+  /**
+   * Requests this minute and tokens today for a key
+   */
+  getUsage(keyId: string): { requestsThisMinute: number; tokensToday: number } {
+    const usage = this.current(keyId);
+    return { requestsThisMinute: usage.requests, tokensToday: usage.tokens };
+  }
+
+  private current(keyId: string): KeyUsage {
+    const now = Date.now();
+    const minute = Math.floor(now / MINUTE_MS);
+    const day = Math.floor(now / DAY_MS);
+
+    let usage = this.usage.get(keyId);
+    if (!usage) {
+      usage = { minute, requests: 0, day, tokens: 0 };
+      this.usage.set(keyId, usage);
+    }
+    if (usage.minute !== minute) {
+      usage.minute = minute;
+      usage.requests = 0;
+    }
+    if (usage.day !== day) {
+      usage.day = day;
+      usage.tokens = 0;
+    }
+    return usage;
+  }
+}
@@ -2,168 +2,896 @@
  * Core RAG System Implementation
  */
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { FAISSVectorStore } from './vectorStore.js';
 import { Reranker } from './reranker.js';
 import { EmbeddingGenerator } from './embeddings.js';
-import { Document, RAGResponse } from '../types.js';
+import { throwIfAborted } from './rateLimit.js';
+import { EmbeddingCache } from './embeddingCache.js';
+import { createEmbeddingProvider, createChatProvider } from './providers.js';
+import { hashContent } from './hashing.js';
+import { canAccess, sameAcl } from './acl.js';
+import {
+  getContextSerializer,
+  buildContextTokenReport,
+  estimateTokens,
+  formatCitation,
+  DEFAULT_CONTEXT_METADATA_FIELDS,
+} from './contextSerializer.js';
+import {
+  buildParaphrasePrompt,
+  buildHypotheticalAnswerPrompt,
+  buildDecompositionPrompt,
+  parseQuestionList,
+  formatSubAnswers,
+} from './queryTransforms.js';
+import {
+  Document,
+  RAGResponse,
+  QueryOptions,
+  ContextFormat,
+  ProviderName,
+  EmbeddingProvider,
+  ChatProvider,
+  ChatRequest,
+  ChatStreamChunk,
+  ContextTokenReport,
+  QueryStreamEvent,
+  TokenUsage,
+  ConversationTurn,
+  SourceDocument,
+  RerankedResult,
+  SourceSummary,
+  IndexStats,
+  ChunkStrategy,
+  EmbeddingCacheStats,
+  EmbeddingBatchOptions,
+  IndexManifest,
+  IndexMismatchPolicy,
+  MetadataFilter,
+  SearchResult,
+  SearchTarget,
+  CallerIdentity,
+  RerankStrategyName,
+  QueryTransformName,
+  QueryTransformReport,
+  QueryExpansion,
+  SubQuestion,
+} from '../types.js';
+import { logger } from './logger.js';
 
-interface RAGConfig {
-  geminiApiKey: string;
+export const NO_RELEVANT_CONTEXT_ANSWER =
+  'No relevant context was found in the indexed documents to answer this question.';
+
+/**
+ * Estimated tokens of the chat requests made by query transforms
+ */
+type TransformUsage = Pick<TokenUsage, 'promptTokens' | 'completionTokens'>;
+
+/**
+ * Add the tokens spent on query transforms to the final answer's usage
+ */
+function addTransformUsage(usage: TokenUsage, transformUsage: TransformUsage): TokenUsage {
+  if (transformUsage.promptTokens + transformUsage.completionTokens === 0) {
+    return usage;
+  }
+  return {
+    promptTokens: usage.promptTokens + transformUsage.promptTokens,
+    completionTokens: usage.completionTokens + transformUsage.completionTokens,
+    estimated: true,
+  };
+}
+
+/**
+ * Merge the results of several searches, keeping each document's best score
+ */
+function unionResults(results: SearchResult[]): SearchResult[] {
+  const best = new Map<string, SearchResult>();
+  for (const result of results) {
+    const key = `${result.document.metadata?.collection ?? ''}\u0000${result.document.id}`;
+    if (!best.has(key) || best.get(key).score < result.score) {
+      best.set(key, result);
+    }
+  }
+  return [...best.values()].sort((a, b) => b.score - a.score);
+}
+
+export interface RAGConfig {
+  provider?: ProviderName;
+  geminiApiKey?: string;
+  providerApiKey?: string;
+  providerBaseUrl?: string;
+  /**
+   * Milliseconds to wait for the OpenAI-compatible or Ollama server before giving up; 0 waits indefinitely
+   */
+  providerTimeoutMs?: number;
   embeddingModel?: string;
   llmModel?: string;
+  embeddingDimension?: number;
+  embeddingProvider?: EmbeddingProvider;
+  /**
+   * Embedding generator shared with other systems (e.g. other collections); the
+   * embedding provider, cache and request options are ignored when it is given
+   */
+  embeddingGenerator?: EmbeddingGenerator;
+  chatProvider?: ChatProvider;
   topK?: number;
   rerankTopK?: number;
+  contextFormat?: ContextFormat;
+  contextMetadataFields?: string[];
+  historyWindow?: number;
+  keywordWeight?: number;
+  /**
+   * Minimum rerank score a source needs to reach the LLM, on the rerank strategy's scale
+   */
+  minScore?: number;
+  /**
+   * How retrieved documents are reordered before the best `rerankTopK` reach the LLM
+   */
+  rerankStrategy?: RerankStrategyName;
+  /**
+   * Relevance weight of the `mmr` strategy, from 0 (diversity only) to 1 (relevance only)
+   */
+  mmrLambda?: number;
+  /**
+   * Paraphrases generated by the `multi-query` transform
+   */
+  multiQueryCount?: number;
+  /**
+   * Most sub-questions the `decompose` transform splits a question into
+   */
+  maxSubQuestions?: number;
+  /**
+   * Embeddings kept in memory; 0 turns the embedding cache off
+   */
+  embeddingCacheSize?: number;
+  /**
+   * File that persists the embedding cache across restarts; memory only when unset
+   */
+  embeddingCachePath?: string;
+  /**
+   * Texts sent per embedding request
+   */
+  embeddingBatchSize?: number;
+  /**
+   * Embedding requests in flight at once
+   */
+  embeddingConcurrency?: number;
+  /**
+   * Embedding requests started per minute; 0 for no limit
+   */
+  embeddingRequestsPerMinute?: number;
+  /**
+   * Retries for rate-limited (429), timed-out and 5xx embedding requests
+   */
+  embeddingMaxRetries?: number;
+  /**
+   * Backoff before the first retry, doubled on each following one (with jitter)
+   */
+  embeddingRetryBaseMs?: number;
+  embeddingRetryMaxMs?: number;
+  /**
+   * Loading an index built with another embedding model: refuse, or re-embed its documents
+   */
+  indexMismatch?: IndexMismatchPolicy;
 }
 
 export class RAGSystem {
   private vectorStore: FAISSVectorStore;
   private reranker: Reranker;
   private embeddingGenerator: EmbeddingGenerator;
-  private llmClient: GoogleGenerativeAI;
-  private llmModel: any;
+  private chatProvider: ChatProvider;
   private config: Required<RAGConfig>;
 
   constructor(config: RAGConfig) {
     const defaultConfig = {
-      embeddingModel: 'text-embedding-004',
-      llmModel: 'gemini-2.0-flash-exp',
+      provider: (config.geminiApiKey ? 'gemini' : 'local') as ProviderName,
+      geminiApiKey: '',
+      providerApiKey: undefined,
+      providerBaseUrl: undefined,
+      providerTimeoutMs: undefined,
+      embeddingModel: undefined,
+      llmModel: undefined,
       topK: 10,
       rerankTopK: 3,
+      contextFormat: 'plain' as ContextFormat,
+      contextMetadataFields: DEFAULT_CONTEXT_METADATA_FIELDS,
+      historyWindow: 4,
+      keywordWeight: 0.5,
+      minScore: undefined,
+      rerankStrategy: 'embedding' as RerankStrategyName,
+      mmrLambda: 0.7,
+      multiQueryCount: 3,
+      maxSubQuestions: 4,
+      embeddingDimension: undefined,
+      embeddingProvider: undefined,
+      embeddingGenerator: undefined,
+      chatProvider: undefined,
+      embeddingCacheSize: 10000,
+      embeddingCachePath: undefined,
+      embeddingBatchSize: 100,
+      embeddingConcurrency: 4,
+      embeddingRequestsPerMinute: 0,
+      embeddingMaxRetries: 5,
+      embeddingRetryBaseMs: 500,
+      embeddingRetryMaxMs: 30000,
+      indexMismatch: 'error' as IndexMismatchPolicy,
     };
 
-    this.config = { ...defaultConfig, ...config };
+    // Options left undefined (e.g. unset environment variables) keep their defaults
+    const overrides = Object.fromEntries(
+      Object.entries(config).filter(([, value]) => value !== undefined)
+    ) as RAGConfig;
+    this.config = { ...defaultConfig, ...overrides };
+    for (const field of ['multiQueryCount', 'maxSubQuestions'] as const) {
+      if (!(Number.isInteger(this.config[field]) && this.config[field] > 0)) {
+        throw new Error(`${field} must be a positive integer`);
+      }
+    }
 
-    // Initialize Gemini client
-    this.llmClient = new GoogleGenerativeAI(this.config.geminiApiKey);
-    this.llmModel = this.llmClient.getGenerativeModel({ 
-      model: this.config.llmModel 
-    });
+    const providerOptions = {
+      provider: this.config.provider,
+      apiKey: this.config.providerApiKey || this.config.geminiApiKey,
+      baseUrl: this.config.providerBaseUrl,
+      timeoutMs: this.config.providerTimeoutMs,
+      embeddingModel: this.config.embeddingModel,
+      llmModel: this.config.llmModel,
+      dimension: this.config.embeddingDimension,
+    };
 
-    // Initialize embedding generator
-    this.embeddingGenerator = new EmbeddingGenerator(
-      this.config.geminiApiKey,
-      this.config.embeddingModel
+    // Initialize chat provider
+    this.chatProvider = this.config.chatProvider || createChatProvider(providerOptions);
+
+    // Initialize embedding generator, caching vectors by model and content hash
+    // and sending the rest in rate-limited, retried batches
+    const embeddingCache = !this.config.embeddingGenerator && this.config.embeddingCacheSize > 0
+      ? new EmbeddingCache({
+        maxEntries: this.config.embeddingCacheSize,
+        filePath: this.config.embeddingCachePath,
+      })
+      : undefined;
+    this.embeddingGenerator = this.config.embeddingGenerator || new EmbeddingGenerator(
+      this.config.embeddingProvider || createEmbeddingProvider(providerOptions),
+      embeddingCache,
+      {
+        batchSize: this.config.embeddingBatchSize,
+        concurrency: this.config.embeddingConcurrency,
+        requestsPerMinute: this.config.embeddingRequestsPerMinute,
+        maxRetries: this.config.embeddingMaxRetries,
+        baseDelayMs: this.config.embeddingRetryBaseMs,
+        maxDelayMs: this.config.embeddingRetryMaxMs,
+      }
     );
 
     // Initialize vector store
     this.vectorStore = new FAISSVectorStore(
-      768, // Gecko embedding dimension
+      this.embeddingGenerator.getDimension(),
       this.embeddingGenerator
     );
 
     // Initialize reranker
-    this.reranker = new Reranker(this.embeddingGenerator);
+    this.reranker = new Reranker(this.embeddingGenerator, {
+      strategy: this.config.rerankStrategy,
+      chatProvider: this.chatProvider,
+      mmrLambda: this.config.mmrLambda,
+    });
   }
 
   /**
-   * Index documents into the system
+   * Index documents into the system, reporting embedding progress and stopping
+   * before the index changes if the signal is aborted
    */
-  async indexDocuments(documents: Document[]): Promise<void> {
+  async indexDocuments(documents: Document[], options: EmbeddingBatchOptions = {}): Promise<IndexStats> {
     if (!documents || documents.length === 0) {
       throw new Error('No documents provided');
     }
-    await this.vectorStore.addDocuments(documents);
+
+    // Stamp upload time and content hash, then sync earlier uploads of the same source
+    const uploadedAt = new Date().toISOString();
+    const stamped = documents.map(doc => ({
+      ...doc,
+      metadata: { uploadedAt, contentHash: hashContent(doc.content), ...doc.metadata },
+    }));
+    return this.vectorStore.addDocuments(stamped, { ...options, replaceSources: true });
   }
 
   /**
-   * Query the RAG system
+   * Check whether a source is indexed from the same file contents with the same chunking
+   * and ACL, in which case indexing it again would change nothing
    */
-  async query(question: string): Promise<RAGResponse> {
-    console.log('\n' + '='.repeat(80));
-    console.log('PROCESSING QUERY:', question);
-    console.log('='.repeat(80));
+  isSourceCurrent(
+    source: string,
+    fileHash: string,
+    chunking: { strategy?: ChunkStrategy | null; chunkSize?: number | null; overlap?: number | null } = {},
+    acl?: string[]
+  ): boolean {
+    const [chunk] = this.vectorStore.getDocumentsBySource(source);
+    if (!chunk || chunk.metadata?.fileHash !== fileHash || !sameAcl(chunk.metadata?.acl, acl)) {
+      return false;
+    }
 
-    try {
-      // Step 1: Retrieve top K documents
-      console.log('\n[1] Retrieving documents from vector store...');
-      const retrievedDocs = await this.vectorStore.search(
-        question,
-        this.config.topK
-      );
-      console.log(`Retrieved ${retrievedDocs.length} documents`);
+    // Row-based formats record no chunking settings
+    const matches = (stored: unknown, requested: unknown) =>
+      stored === undefined || requested === undefined || requested === null || stored === requested;
+    return matches(chunk.metadata.chunkStrategy, chunking.strategy) &&
+      matches(chunk.metadata.chunkSize, chunking.chunkSize) &&
+      matches(chunk.metadata.chunkOverlap, chunking.overlap);
+  }
 
-      if (retrievedDocs.length === 0) {
-        throw new Error('No documents found in vector store');
-      }
+  /**
+   * Delete every chunk of a source, returning how many were removed
+   */
+  deleteSource(source: string): number {
+    return this.vectorStore.deleteSource(source);
+  }
 
-      // Step 2: Rerank documents
-      console.log('\n[2] Reranking documents...');
-      const rerankedDocs = await this.reranker.rerank(
-        question,
-        retrievedDocs,
-        this.config.rerankTopK
-      );
+  /**
+   * List indexed sources with chunk counts, only those a caller may access when given
+   */
+  getSources(identity?: CallerIdentity): SourceSummary[] {
+    return this.vectorStore.getSources(identity);
+  }
+
+  /**
+   * Get the chunks of a source, only those a caller may access when given
+   */
+  getSourceDocuments(source: string, identity?: CallerIdentity): Document[] {
+    return this.vectorStore.getDocumentsBySource(source, identity);
+  }
 
-      // Step 3: Build context from reranked documents
-      console.log('\n[3] Building context...');
-      const context = rerankedDocs
-        .map((doc, idx) => `[Document ${idx + 1}]\n${doc.content}`)
-        .join('\n\n');
+  /**
+   * Query the RAG system
+   */
+  async query(question: string, options: QueryOptions = {}): Promise<RAGResponse> {
+    logger.log('\n' + '='.repeat(80));
+    logger.log('PROCESSING QUERY:', question);
+    logger.log('='.repeat(80));
 
-      // Step 4: Create prompt for LLM
-      console.log('\n[4] Generating response with Gemini...');
-      const prompt = this.buildPrompt(question, context);
+    try {
+      const { standaloneQuestion, sources, contextTokens, transforms, transformUsage, chatRequest } =
+        await this.prepareQuery(question, options);
 
       // Step 5: Generate response
-      const response = await this.llmModel.generateContent(prompt);
-      const textResponse = await response.response;
-      const answer = textResponse.text();
+      const answer = chatRequest
+        ? await this.chatProvider.generate(chatRequest)
+        : NO_RELEVANT_CONTEXT_ANSWER;
 
-      console.log('\n[5] Response generated successfully!');
-      console.log('='.repeat(80) + '\n');
+      logger.log('\n[5] Response generated successfully!');
+      logger.log('='.repeat(80) + '\n');
 
       return {
         question,
+        standaloneQuestion,
         answer,
-        sources: rerankedDocs,
+        sources,
+        contextTokens,
+        transforms,
+        usage: {
+          promptTokens: transformUsage.promptTokens + (chatRequest ? estimateTokens(chatRequest.prompt) : 0),
+          completionTokens: transformUsage.completionTokens + (chatRequest ? estimateTokens(answer) : 0),
+          estimated: true,
+        },
         timestamp: new Date().toISOString(),
       };
     } catch (error) {
-      console.error('Error processing query:', error);
+      logger.error('Error processing query:', error);
       throw error;
     }
   }
 
   /**
-   * Build prompt for the LLM
+   * Query the RAG system, streaming the answer as it is generated.
+   * Yields the sources first, then answer deltas, then a final event with
+   * timing and token usage. Aborting the signal stops generation.
+   */
+  async *queryStream(
+    question: string,
+    options: QueryOptions = {},
+    signal?: AbortSignal
+  ): AsyncGenerator<QueryStreamEvent> {
+    logger.log('\n' + '='.repeat(80));
+    logger.log('PROCESSING STREAMING QUERY:', question);
+    logger.log('='.repeat(80));
+
+    const startedAt = Date.now();
+    const { standaloneQuestion, sources, contextTokens, transforms, transformUsage, chatRequest } =
+      await this.prepareQuery(question, options, signal);
+    const retrievalMs = Date.now() - startedAt;
+
+    yield { type: 'sources', question, standaloneQuestion, sources, contextTokens, transforms };
+
+    const generationStartedAt = Date.now();
+    let firstTokenMs: number | null = null;
+    let answer = '';
+    let usage: TokenUsage | undefined;
+
+    let chunks: Iterable<ChatStreamChunk> | AsyncIterable<ChatStreamChunk>;
+    if (!chatRequest) {
+      chunks = [{
+        text: NO_RELEVANT_CONTEXT_ANSWER,
+        usage: { promptTokens: 0, completionTokens: 0, estimated: false },
+      }];
+    } else if (this.chatProvider.generateStream) {
+      chunks = this.chatProvider.generateStream(chatRequest, signal);
+    } else {
+      chunks = (async function* (provider: ChatProvider) {
+        yield { text: await provider.generate(chatRequest, signal) };
+      })(this.chatProvider);
+    }
+
+    for await (const chunk of chunks) {
+      if (signal?.aborted) {
+        logger.log('Streaming query cancelled by client');
+        return;
+      }
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+      if (chunk.text) {
+        if (firstTokenMs === null) {
+          firstTokenMs = Date.now() - startedAt;
+        }
+        answer += chunk.text;
+        yield { type: 'token', delta: chunk.text };
+      }
+    }
+
+    logger.log('\n[5] Streamed response generated successfully!');
+    logger.log('='.repeat(80) + '\n');
+
+    yield {
+      type: 'done',
+      answer,
+      timing: {
+        retrievalMs,
+        firstTokenMs,
+        generationMs: Date.now() - generationStartedAt,
+        totalMs: Date.now() - startedAt,
+      },
+      usage: addTransformUsage(usage || {
+        promptTokens: estimateTokens(chatRequest.prompt),
+        completionTokens: estimateTokens(answer),
+        estimated: true,
+      }, transformUsage),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Retrieve, rerank and build the chat request for a question. Aborting the
+   * signal stops before the next step or model call.
+   */
+  private async prepareQuery(
+    question: string,
+    options: QueryOptions,
+    signal?: AbortSignal
+  ): Promise<{
+    standaloneQuestion?: string;
+    sources: SourceDocument[];
+    contextTokens: ContextTokenReport;
+    transforms?: QueryTransformReport;
+    /**
+     * Tokens spent generating queries and sub-answers before the final answer
+     */
+    transformUsage: TransformUsage;
+    /**
+     * Undefined when no source passed the score threshold
+     */
+    chatRequest?: ChatRequest;
+  }> {
+    // Step 0: Rewrite a follow-up question so it can be retrieved on its own
+    const history = this.getHistoryWindow(options.history);
+    let standaloneQuestion: string | undefined;
+    if (history.length > 0) {
+      logger.log('\n[0] Condensing follow-up question...');
+      standaloneQuestion = await this.condenseQuestion(question, history, signal);
+      logger.log(`Standalone question: "${standaloneQuestion}"`);
+    }
+    const searchQuery = standaloneQuestion || question;
+
+    // Step 1: Retrieve top K documents, for each part of a compound question when decomposing
+    const transforms = new Set(options.transforms || []);
+    const transformUsage = { promptTokens: 0, completionTokens: 0 };
+    const report: QueryTransformReport | undefined = transforms.size > 0 ? {} : undefined;
+    const subQuestions = transforms.has('decompose')
+      ? await this.decomposeQuestion(searchQuery, transformUsage, signal)
+      : [];
+
+    let sources: SourceDocument[];
+    if (subQuestions.length > 1) {
+      logger.log(`\n[1] Answering ${subQuestions.length} sub-questions...`);
+      report.subQuestions = [];
+      const merged = new Map<string, SourceDocument>();
+      for (const subQuestion of subQuestions) {
+        const retrieved = await this.retrieveAndRerank(subQuestion, options, transforms, transformUsage, signal);
+        const answer = await this.answerSubQuestion(subQuestion, retrieved.sources, options, transformUsage, signal);
+        report.subQuestions.push({
+          question: subQuestion,
+          ...retrieved.expansion,
+          answer,
+          citations: retrieved.sources.map(source => source.citation),
+        });
+        for (const source of retrieved.sources) {
+          merged.set(`${source.metadata?.collection ?? ''}\u0000${source.id}`, source);
+        }
+      }
+      sources = [...merged.values()].map((source, idx) => ({ ...source, finalRank: idx + 1 }));
+    } else {
+      logger.log('\n[1] Retrieving documents from vector store...');
+      const retrieved = await this.retrieveAndRerank(searchQuery, options, transforms, transformUsage, signal);
+      sources = retrieved.sources;
+      if (report) {
+        Object.assign(report, retrieved.expansion);
+      }
+    }
+
+    // Step 3: Build context from reranked documents
+    throwIfAborted(signal);
+    const contextFormat = options.contextFormat || this.config.contextFormat;
+    const metadataFields = this.config.contextMetadataFields;
+    logger.log(`\n[3] Building ${contextFormat} context...`);
+    const serializer = getContextSerializer(contextFormat);
+    const context = serializer.serialize(sources, metadataFields);
+    const contextTokens = buildContextTokenReport(sources, metadataFields, contextFormat);
+    logger.log(
+      `Context tokens (approx): plain=${contextTokens.plain}, json=${contextTokens.json}, toon=${contextTokens.toon}`
+    );
+
+    if (sources.length === 0) {
+      logger.log('\n[4] No relevant context, skipping generation');
+      return { standaloneQuestion, sources, contextTokens, transforms: report, transformUsage };
+    }
+
+    // Step 4: Create prompt for LLM, combining the sub-answers when decomposing
+    logger.log(`\n[4] Generating response with ${this.chatProvider.getModelName()}...`);
+    const prompt = this.buildPrompt(
+      question,
+      context,
+      serializer.describe(metadataFields),
+      history,
+      report?.subQuestions
+    );
+
+    return {
+      standaloneQuestion,
+      sources,
+      contextTokens,
+      transforms: report,
+      transformUsage,
+      chatRequest: {
+        prompt,
+        question: searchQuery,
+        passages: [
+          ...(report?.subQuestions || []).map(sub => sub.answer),
+          ...sources.map(doc => doc.content),
+        ],
+      },
+    };
+  }
+
+  /**
+   * Retrieve documents for a question, also searching its paraphrases and a
+   * hypothetical answer when those transforms are on, then rerank them against
+   * the question and drop those below the score threshold
    */
-  private buildPrompt(question: string, context: string): string {
+  private async retrieveAndRerank(
+    question: string,
+    options: QueryOptions,
+    transforms: Set<QueryTransformName>,
+    usage: TransformUsage,
+    signal?: AbortSignal
+  ): Promise<{ sources: SourceDocument[]; expansion: QueryExpansion }> {
+    const expansion: QueryExpansion = {};
+    if (transforms.has('multi-query')) {
+      const output = await this.generateTransform(
+        buildParaphrasePrompt(question, this.config.multiQueryCount),
+        question,
+        usage,
+        signal
+      );
+      expansion.paraphrases = parseQuestionList(output, this.config.multiQueryCount, [question]);
+      logger.log(`Paraphrases: ${JSON.stringify(expansion.paraphrases)}`);
+    }
+    if (transforms.has('hyde')) {
+      const output = (await this.generateTransform(buildHypotheticalAnswerPrompt(question), question, usage, signal)).trim();
+      // Providers that cannot follow the prompt echo the question, which adds nothing to search
+      if (output && output.toLowerCase() !== question.trim().toLowerCase()) {
+        expansion.hypotheticalAnswer = output;
+      }
+    }
+
+    const queries = [...new Set([question, ...(expansion.paraphrases || []), expansion.hypotheticalAnswer])]
+      .filter(Boolean);
+    if (queries.length > 1) {
+      logger.log(`Searching for "${question}" and ${queries.length - 1} generated queries`);
+    }
+    const topK = options.topK ?? this.config.topK;
+    const retrieved: SearchResult[] = [];
+    for (const query of queries) {
+      retrieved.push(...(options.searchTargets
+        ? await this.searchTargets(options.searchTargets, query, topK, options.filter, options.identity, signal)
+        : await this.search(query, topK, options.filter, options.identity, signal)));
+    }
+
+    // Search targets may be implemented elsewhere, so check access again before
+    // anything reaches the reranker or the prompt
+    const retrievedDocs = unionResults(retrieved).filter(result => canAccess(result.document, options.identity));
+    logger.log(`Retrieved ${retrievedDocs.length} documents`);
+
+    // Step 2: Rerank documents
+    logger.log('\n[2] Reranking documents...');
+    throwIfAborted(signal);
+    const reranked = await this.reranker.rerank(
+      question,
+      retrievedDocs,
+      options.rerankTopK ?? this.config.rerankTopK,
+      signal
+    );
+
+    const minScore = this.config.minScore;
+    const relevant = typeof minScore === 'number'
+      ? reranked.filter(result => result.rerankScore >= minScore)
+      : reranked;
+    if (relevant.length < reranked.length) {
+      logger.log(`Dropped ${reranked.length - relevant.length} documents below minScore ${minScore}`);
+    }
+    return {
+      sources: relevant.map((result, idx) => this.toSourceDocument(result, idx + 1)),
+      expansion,
+    };
+  }
+
+  /**
+   * Split a compound question into sub-questions; a single one means there is nothing to split
+   */
+  private async decomposeQuestion(question: string, usage: TransformUsage, signal?: AbortSignal): Promise<string[]> {
+    const output = await this.generateTransform(
+      buildDecompositionPrompt(question, this.config.maxSubQuestions),
+      question,
+      usage,
+      signal
+    );
+    const subQuestions = parseQuestionList(output, this.config.maxSubQuestions);
+    logger.log(`Sub-questions: ${JSON.stringify(subQuestions)}`);
+    return subQuestions;
+  }
+
+  /**
+   * Answer one sub-question from its own sources
+   */
+  private async answerSubQuestion(
+    question: string,
+    sources: SourceDocument[],
+    options: QueryOptions,
+    usage: TransformUsage,
+    signal?: AbortSignal
+  ): Promise<string> {
+    if (sources.length === 0) {
+      return NO_RELEVANT_CONTEXT_ANSWER;
+    }
+
+    const serializer = getContextSerializer(options.contextFormat || this.config.contextFormat);
+    const metadataFields = this.config.contextMetadataFields;
+    const prompt = this.buildPrompt(
+      question,
+      serializer.serialize(sources, metadataFields),
+      serializer.describe(metadataFields),
+      []
+    );
+    throwIfAborted(signal);
+    const answer = await this.chatProvider.generate({
+      prompt,
+      question,
+      passages: sources.map(doc => doc.content),
+    }, signal);
+    usage.promptTokens += estimateTokens(prompt);
+    usage.completionTokens += estimateTokens(answer);
+    return answer.trim();
+  }
+
+  /**
+   * Run a transform prompt, counting its tokens. The question is passed along
+   * so providers that cannot follow the prompt echo it back unchanged.
+   */
+  private async generateTransform(
+    prompt: string,
+    question: string,
+    usage: TransformUsage,
+    signal?: AbortSignal
+  ): Promise<string> {
+    throwIfAborted(signal);
+    const output = await this.chatProvider.generate({ prompt, question }, signal);
+    usage.promptTokens += estimateTokens(prompt);
+    usage.completionTokens += estimateTokens(output);
+    return output;
+  }
+
+  /**
+   * Search this system's index with hybrid (vector and keyword) retrieval,
+   * skipping documents the caller may not access when an identity is given
+   */
+  async search(
+    query: string,
+    topK: number,
+    filter?: MetadataFilter,
+    identity?: CallerIdentity,
+    signal?: AbortSignal
+  ): Promise<SearchResult[]> {
+    return this.vectorStore.search(query, topK, { keywordWeight: this.config.keywordWeight, filter, identity, signal });
+  }
+
+  /**
+   * Search several indexes, tag each result with the index it came from, and
+   * merge them by retrieval score. Every index is searched for `topK` results,
+   * so reranking sees the best candidates of each.
+   */
+  private async searchTargets(
+    targets: SearchTarget[],
+    query: string,
+    topK: number,
+    filter?: MetadataFilter,
+    identity?: CallerIdentity,
+    signal?: AbortSignal
+  ): Promise<SearchResult[]> {
+    const results = await Promise.all(targets.map(async target =>
+      (await target.search(query, topK, filter, identity, signal)).map(result => ({
+        ...result,
+        document: {
+          ...result.document,
+          metadata: { ...result.document.metadata, collection: target.name },
+        },
+      }))
+    ));
+    return results.flat().sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Flatten a reranked result into a source with its retrieval diagnostics
+   */
+  private toSourceDocument(result: RerankedResult, finalRank: number): SourceDocument {
+    return {
+      ...result.document,
+      citation: formatCitation(result.document),
+      retrievers: result.retrievers || [],
+      scores: {
+        retrieval: result.score,
+        vectorDistance: result.vectorDistance,
+        keywordScore: result.keywordScore,
+        rerank: result.rerankScore,
+        rerankStrategy: result.rerankStrategy,
+        rerankScores: result.rerankScores,
+      },
+      originalRank: result.originalRank,
+      finalRank,
+    };
+  }
+
+  /**
+   * Keep only the most recent turns that fit the history window
+   */
+  private getHistoryWindow(history: ConversationTurn[] = []): ConversationTurn[] {
+    if (this.config.historyWindow <= 0) {
+      return [];
+    }
+    return history.slice(-this.config.historyWindow);
+  }
+
+  /**
+   * Rewrite a follow-up question into a standalone question using chat history
+   */
+  private async condenseQuestion(
+    question: string,
+    history: ConversationTurn[],
+    signal?: AbortSignal
+  ): Promise<string> {
+    const prompt = `Given the conversation below and a follow-up question, rewrite the follow-up question as a standalone question that can be understood without the conversation. Keep names, identifiers and section references from the conversation. Return only the rewritten question.
+
+CONVERSATION:
+${this.formatHistory(history)}
+
+FOLLOW-UP QUESTION: ${question}
+
+STANDALONE QUESTION:`;
+
+    const rewritten = (await this.chatProvider.generate({ prompt, question }, signal)).trim();
+    return rewritten || question;
+  }
+
+  /**
+   * Render conversation turns for a prompt
+   */
+  private formatHistory(history: ConversationTurn[]): string {
+    return history
+      .map(turn => `User: ${turn.question}\nAssistant: ${turn.answer}`)
+      .join('\n\n');
+  }
+
+  /**
+   * Build prompt for the LLM, including the answers to its sub-questions when it was decomposed
+   */
+  private buildPrompt(
+    question: string,
+    context: string,
+    contextDescription: string,
+    history: ConversationTurn[] = [],
+    subQuestions: SubQuestion[] = []
+  ): string {
+    const conversation = history.length > 0
+      ? `\nCONVERSATION SO FAR:\n${this.formatHistory(history)}\n`
+      : '';
+    const subAnswers = subQuestions.length > 0
+      ? `\nANSWERS TO PARTS OF THE QUESTION:\n${formatSubAnswers(subQuestions)}\n`
+      : '';
+
     return `You are a helpful assistant that answers questions based on the provided context.
+${contextDescription}
 
 CONTEXT:
 ${context}
-
+${subAnswers}${conversation}
 QUESTION: ${question}
 
 INSTRUCTIONS:
-- Answer the question based only on the information provided in the context above
+- Answer the question based only on the information provided in the context above${subAnswers ? ', combining the answers to its parts' : ''}
 - If the context doesn't contain enough information to answer the question, say so
 - Be concise and accurate
-- Cite which document(s) you used if relevant
+- Cite the sources you used by file and page, e.g. (a.pdf p. 12) or (a.pdf p. 12–13), when page numbers are available
 
 ANSWER:`;
   }
 
   /**
-   * Save the vector store to disk
+   * Save the vector store to disk, returning the manifest written
+   */
+  saveVectorStore(filepath: string): IndexManifest {
+    return this.vectorStore.saveIndex(filepath);
+  }
+
+  /**
+   * Load the vector store from disk, refusing or re-embedding an index built
+   * with another embedding model as configured by `indexMismatch`
+   */
+  async loadVectorStore(filepath: string): Promise<IndexManifest | null> {
+    return this.vectorStore.loadIndex(filepath, { onMismatch: this.config.indexMismatch });
+  }
+
+  /**
+   * Get document count, or the number of documents a caller may access
+   */
+  getDocumentCount(identity?: CallerIdentity): number {
+    return this.vectorStore.getDocumentCount(identity);
+  }
+
+  /**
+   * Get the embedding generator, e.g. for semantic chunking at upload time
+   */
+  getEmbeddingGenerator(): EmbeddingGenerator {
+    return this.embeddingGenerator;
+  }
+
+  /**
+   * Get the chat provider, e.g. to share it with other systems
    */
-  saveVectorStore(filepath: string): void {
-    this.vectorStore.saveIndex(filepath);
+  getChatProvider(): ChatProvider {
+    return this.chatProvider;
   }
 
   /**
-   * Load the vector store from disk
+   * Get embedding cache hit and miss statistics, or null when caching is off
    */
-  loadVectorStore(filepath: string): void {
-    this.vectorStore.loadIndex(filepath);
+  getEmbeddingCacheStats(): EmbeddingCacheStats | null {
+    return this.embeddingGenerator.getCacheStats();
   }
 
   /**
-   * Get document count
+   * Get the names of the models in use
    */
-  getDocumentCount(): number {
-    return this.vectorStore.getDocumentCount();
+  getModelInfo(): { embeddingModel: string; llmModel: string; dimension: number; rerankStrategy: RerankStrategyName } {
+    return {
+      embeddingModel: this.embeddingGenerator.getModelName(),
+      llmModel: this.chatProvider.getModelName(),
+      dimension: this.embeddingGenerator.getDimension(),
+      rerankStrategy: this.reranker.getStrategy(),
+    };
   }
 
   /**
@@ -0,0 +1,160 @@
+/**
+ * Rate Limiting and Retries
+ * Token-bucket rate limiting, exponential backoff with jitter, cancellation and bounded
+ * concurrency for calls to remote providers
+ */
+
+export interface RetryOptions {
+  /**
+   * Retries after the first attempt; 0 disables retrying
+   */
+  maxRetries?: number;
+  /**
+   * Delay cap for the first retry, doubled on every following retry
+   */
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+// Network failures worth retrying; anything else is treated as permanent
+const RETRYABLE_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'EPIPE',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+]);
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Throw an AbortError if the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    const error = new Error('Operation cancelled');
+    error.name = 'AbortError';
+    throw error;
+  }
+}
+
+/**
+ * Limits requests to a steady rate while allowing short bursts
+ */
+export class TokenBucket {
+  private capacity: number;
+  private tokens: number;
+  private refillPerMs: number;
+  private lastRefill = Date.now();
+  // Callers waiting for a token, served in order
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param requestsPerMinute Sustained request rate
+   * @param burst Requests allowed back to back before the rate applies
+   */
+  constructor(requestsPerMinute: number, burst: number = 1) {
+    if (!(requestsPerMinute > 0)) {
+      throw new Error('requestsPerMinute must be a positive number');
+    }
+    this.capacity = Math.max(1, burst);
+    this.tokens = this.capacity;
+    this.refillPerMs = requestsPerMinute / 60000;
+  }
+
+  /**
+   * Wait until a token is available and take it
+   */
+  take(): Promise<void> {
+    const turn = this.queue.then(async () => {
+      this.refill();
+      if (this.tokens < 1) {
+        await sleep(Math.ceil((1 - this.tokens) / this.refillPerMs));
+        this.refill();
+      }
+      this.tokens -= 1;
+    });
+    this.queue = turn;
+    return turn;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Check whether an error is transient: rate limiting (429), timeouts,
+ * server errors (5xx) or a dropped connection
+ */
+export function isRetryableError(error: any): boolean {
+  const status = error?.status;
+  if (typeof status === 'number') {
+    return status === 408 || status === 429 || status >= 500;
+  }
+
+  const code = error?.code ?? error?.cause?.code;
+  if (typeof code === 'string' && RETRYABLE_ERROR_CODES.has(code)) {
+    return true;
+  }
+  // fetch reports network failures as a TypeError with this message
+  return error instanceof TypeError && error.message === 'fetch failed';
+}
+
+/**
+ * Run an operation, retrying retryable errors with exponential backoff and full jitter
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions = {},
+  onRetry?: (error: any, attempt: number, delayMs: number) => void
+): Promise<T> {
+  const maxRetries = options.maxRetries ?? 5;
+  const baseDelayMs = options.baseDelayMs ?? 500;
+  const maxDelayMs = options.maxDelayMs ?? 30000;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+      // Random delays keep concurrent callers from retrying in lockstep
+      const delayMs = Math.round(Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+      onRetry?.(error, attempt + 1, delayMs);
+      await sleep(delayMs);
+    }
+  }
+}
+
+/**
+ * Run a task for every item with at most `limit` tasks in flight.
+ * Settles every task, like Promise.allSettled, so one failure does not hide the others.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await task(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
@@ -1,74 +1,316 @@
 /**
  * Document Reranking Utility
- * Uses embedding similarity to rerank retrieved documents
+ * Reorders retrieved documents with a configurable strategy:
+ * - `embedding`: cosine similarity between query and document embeddings
+ * - `lexical`: share of the query's terms that appear in the document
+ * - `llm`: a listwise relevance judgement from the chat provider
+ * - `mmr`: maximal marginal relevance, trading embedding similarity for diversity
+ * Results carry the vectors stored in the index, so only the query (and any
+ * result without a stored vector) is embedded, in one batch.
  */
 
-import { Document } from '../types.js';
-import { EmbeddingGenerator, cosineSimilarity } from './embeddings.js';
+import {
+  ChatProvider,
+  Document,
+  EmbeddingProvider,
+  RerankScores,
+  RerankStrategyName,
+  SearchResult,
+  RerankedResult,
+} from '../types.js';
+import { cosineSimilarity } from './embeddings.js';
+import { tokenize } from './tokenizer.js';
+import { logger } from './logger.js';
+
+export const RERANK_STRATEGIES: RerankStrategyName[] = ['embedding', 'lexical', 'llm', 'mmr'];
+
+const DEFAULT_MMR_LAMBDA = 0.7;
+
+// Characters of each passage shown to the LLM judge
+const MAX_JUDGED_PASSAGE_LENGTH = 1500;
+
+const MAX_JUDGE_SCORE = 10;
+
+/**
+ * Check whether a string names a rerank strategy
+ */
+export function isRerankStrategyName(value: unknown): value is RerankStrategyName {
+  return typeof value === 'string' && (RERANK_STRATEGIES as string[]).includes(value);
+}
+
+/**
+ * A strategy's scores for every result, plus the top results in its order when
+ * that is not simply by score (as with MMR)
+ */
+interface StrategyScores {
+  scores: RerankScores[];
+  score: (scores: RerankScores) => number;
+  order?: number[];
+}
+
+interface RerankerOptions {
+  strategy?: RerankStrategyName;
+  /**
+   * Needed by the `llm` strategy
+   */
+  chatProvider?: ChatProvider;
+  /**
+   * Weight of relevance against diversity for `mmr`, from 0 (diversity only) to 1 (relevance only)
+   */
+  mmrLambda?: number;
+}
+
+/**
+ * Parse the LLM judge's answer, which must be `{"scores":[{"passage":n,"score":s}]}`
+ * with one integer score from 0 to 10 for each of `count` passages
+ */
+export function parseJudgeScores(output: string, count: number): number[] | null {
+  const json = output.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(parsed?.scores) || parsed.scores.length !== count) {
+    return null;
+  }
+
+  const scores = new Array<number | undefined>(count);
+  for (const entry of parsed.scores) {
+    const { passage, score } = entry ?? {};
+    if (!Number.isInteger(passage) || passage < 1 || passage > count || scores[passage - 1] !== undefined) {
+      return null;
+    }
+    if (!Number.isInteger(score) || score < 0 || score > MAX_JUDGE_SCORE) {
+      return null;
+    }
+    scores[passage - 1] = score;
+  }
+  return scores as number[];
+}
 
 export class Reranker {
-  private embeddingGenerator: EmbeddingGenerator;
+  private embeddingGenerator: EmbeddingProvider;
+  private strategy: RerankStrategyName;
+  private chatProvider?: ChatProvider;
+  private mmrLambda: number;
 
-  constructor(embeddingGenerator: EmbeddingGenerator) {
+  constructor(embeddingGenerator: EmbeddingProvider, options: RerankerOptions = {}) {
     this.embeddingGenerator = embeddingGenerator;
+    this.strategy = options.strategy || 'embedding';
+    if (!isRerankStrategyName(this.strategy)) {
+      throw new Error(`Unknown rerank strategy: ${this.strategy}`);
+    }
+    if (this.strategy === 'llm' && !options.chatProvider) {
+      throw new Error('The llm rerank strategy needs a chat provider');
+    }
+    this.chatProvider = options.chatProvider;
+    this.mmrLambda = options.mmrLambda ?? DEFAULT_MMR_LAMBDA;
+    if (!(this.mmrLambda >= 0 && this.mmrLambda <= 1)) {
+      throw new Error('mmrLambda must be between 0 and 1');
+    }
+  }
+
+  getStrategy(): RerankStrategyName {
+    return this.strategy;
   }
 
   /**
-   * Rerank documents based on relevance to query
+   * Rerank search results based on relevance to query
    */
   async rerank(
     query: string,
-    documents: Document[],
-    topK: number
-  ): Promise<Document[]> {
-    if (!documents || documents.length === 0) {
+    results: SearchResult[],
+    topK: number,
+    signal?: AbortSignal
+  ): Promise<RerankedResult[]> {
+    if (!results || results.length === 0) {
       return [];
     }
 
-    if (topK >= documents.length) {
-      return documents;
-    }
-
-    console.log(`Reranking ${documents.length} documents...`);
+    logger.log(`Reranking ${results.length} documents with the ${this.strategy} strategy...`);
 
     try {
-      // Generate query embedding once
-      const queryEmbedding = await this.embeddingGenerator.generateEmbedding(query);
-
-      // Score all documents
-      const scoredDocs = await Promise.all(
-        documents.map(async (doc, idx) => {
-          const docEmbedding = await this.embeddingGenerator.generateEmbedding(doc.content);
-          const score = cosineSimilarity(queryEmbedding, docEmbedding);
-          
-          return { doc, score, originalIndex: idx };
-        })
-      );
-
-      // Sort by score descending and take top K
-      const reranked = scoredDocs
-        .sort((a, b) => b.score - a.score)
-        .slice(0, topK)
-        .map(item => item.doc);
+      let strategy = this.strategy;
+      let ranking: StrategyScores | null;
+      switch (strategy) {
+        case 'lexical':
+          ranking = this.lexicalScores(query, results);
+          break;
+        case 'llm':
+          ranking = await this.llmScores(query, results, signal);
+          break;
+        case 'mmr':
+          ranking = await this.mmrScores(query, results, topK);
+          break;
+        default:
+          ranking = await this.embeddingScores(query, results);
+      }
+
+      // An unusable LLM judgement falls back to embedding similarity
+      if (!ranking) {
+        logger.warn('LLM judge returned no valid scores, reranking by embedding similarity instead');
+        strategy = 'embedding';
+        ranking = await this.embeddingScores(query, results);
+      }
+
+      const scored = results.map((result, idx) => ({
+        ...result,
+        rerankScore: ranking.score(ranking.scores[idx]),
+        rerankStrategy: strategy,
+        rerankScores: ranking.scores[idx],
+        originalRank: idx + 1,
+      }));
+
+      // Sort by score descending (or the strategy's own order) and take top K
+      const reranked = ranking.order
+        ? ranking.order.map(idx => scored[idx])
+        : scored.sort((a, b) => b.rerankScore - a.rerankScore);
+      const top = reranked.slice(0, topK);
 
-      console.log(`Reranked to top ${topK} documents`);
-      return reranked;
+      logger.log(`Reranked to top ${top.length} documents`);
+      return top;
     } catch (error) {
-      console.error('Error reranking documents:', error);
+      logger.error('Error reranking documents:', error);
       throw error;
     }
   }
 
+  /**
+   * Embed the query, reusing each result's stored embedding and embedding the
+   * documents that have none
+   */
+  private async embedQueryAndResults(
+    query: string,
+    results: SearchResult[]
+  ): Promise<{ queryEmbedding: number[]; docEmbeddings: number[][] }> {
+    const missing = results
+      .map((result, idx) => (result.embedding ? -1 : idx))
+      .filter(idx => idx >= 0);
+    const [queryEmbedding, ...embedded] = await this.embeddingGenerator.generateEmbeddings([
+      query,
+      ...missing.map(idx => results[idx].document.content),
+    ]);
+    const docEmbeddings = results.map(result => result.embedding);
+    missing.forEach((idx, j) => {
+      docEmbeddings[idx] = embedded[j];
+    });
+    return { queryEmbedding, docEmbeddings };
+  }
+
+  /**
+   * Cosine similarity between the query and each document
+   */
+  private async embeddingScores(query: string, results: SearchResult[]): Promise<StrategyScores> {
+    const { queryEmbedding, docEmbeddings } = await this.embedQueryAndResults(query, results);
+    return {
+      scores: docEmbeddings.map(embedding => ({ embedding: cosineSimilarity(queryEmbedding, embedding) })),
+      score: scores => scores.embedding,
+    };
+  }
+
+  /**
+   * Share of the distinct query terms found in each document, from 0 to 1
+   */
+  private lexicalScores(query: string, results: SearchResult[]): StrategyScores {
+    const queryTerms = new Set(tokenize(query));
+    return {
+      scores: results.map(result => {
+        if (queryTerms.size === 0) {
+          return { lexical: 0 };
+        }
+        const docTerms = new Set(tokenize(result.document.content));
+        let matched = 0;
+        for (const term of queryTerms) {
+          if (docTerms.has(term)) matched++;
+        }
+        return { lexical: matched / queryTerms.size };
+      }),
+      score: scores => scores.lexical,
+    };
+  }
+
+  /**
+   * Ask the chat provider to grade every passage from 0 to 10 in one request,
+   * scaled to 0–1. Returns null when the answer does not follow the schema.
+   */
+  private async llmScores(
+    query: string,
+    results: SearchResult[],
+    signal?: AbortSignal
+  ): Promise<StrategyScores | null> {
+    const passages = results
+      .map((result, idx) => `[${idx + 1}] ${result.document.content.slice(0, MAX_JUDGED_PASSAGE_LENGTH)}`)
+      .join('\n\n');
+    const prompt = `You are grading how well passages answer a question. Give every passage an integer score from 0 (irrelevant) to ${MAX_JUDGE_SCORE} (answers the question directly). Judge only the passage text.
+
+Respond with JSON only, no other text, in exactly this form with one entry per passage:
+{"scores":[{"passage":1,"score":7},{"passage":2,"score":0}]}
+
+QUESTION: ${query}
+
+PASSAGES:
+${passages}
+
+JSON:`;
+
+    const output = await this.chatProvider.generate({ prompt }, signal);
+    const judged = parseJudgeScores(output, results.length);
+    if (!judged) {
+      return null;
+    }
+    return {
+      scores: judged.map(score => ({ llm: score / MAX_JUDGE_SCORE })),
+      score: scores => scores.llm,
+    };
+  }
+
+  /**
+   * Maximal marginal relevance: repeatedly pick the document with the best
+   * balance of similarity to the query and dissimilarity to those already
+   * picked, so near-duplicate chunks (e.g. from the same page) are pushed down
+   */
+  private async mmrScores(query: string, results: SearchResult[], topK: number): Promise<StrategyScores> {
+    const { queryEmbedding, docEmbeddings } = await this.embedQueryAndResults(query, results);
+    const relevance = docEmbeddings.map(embedding => cosineSimilarity(queryEmbedding, embedding));
+    const scores: RerankScores[] = relevance.map(embedding => ({ embedding }));
+
+    const order: number[] = [];
+    const remaining = new Set(results.map((_, idx) => idx));
+    while (remaining.size > 0 && order.length < topK) {
+      let best = -1;
+      let bestScore = -Infinity;
+      for (const idx of remaining) {
+        const redundancy = order.length > 0
+          ? Math.max(...order.map(picked => cosineSimilarity(docEmbeddings[idx], docEmbeddings[picked])))
+          : 0;
+        const score = this.mmrLambda * relevance[idx] - (1 - this.mmrLambda) * redundancy;
+        if (score > bestScore) {
+          best = idx;
+          bestScore = score;
+        }
+      }
+      scores[best].mmr = bestScore;
+      order.push(best);
+      remaining.delete(best);
+    }
+
+    return { scores, score: scores => scores.mmr, order };
+  }
+
   /**
    * Score a single document against a query
    */
   async scoreDocument(query: string, document: Document): Promise<number> {
     try {
-      const queryEmbedding = await this.embeddingGenerator.generateEmbedding(query);
-      const docEmbedding = await this.embeddingGenerator.generateEmbedding(document.content);
+      const [queryEmbedding, docEmbedding] = await this.embeddingGenerator.generateEmbeddings([
+        query,
+        document.content,
+      ]);
       return cosineSimilarity(queryEmbedding, docEmbedding);
     } catch (error) {
-      console.error('Error scoring document:', error);
+      logger.error('Error scoring document:', error);
       throw error;
     }
   }
@@ -80,27 +322,27 @@ export class Reranker {
     query: string,
     documents: Document[],
     topK: number
-  ): Promise<Array<{ document: Document; score: number }>> {
+  ): Promise<SearchResult[]> {
     if (!documents || documents.length === 0) {
       return [];
     }
 
     try {
-      const queryEmbedding = await this.embeddingGenerator.generateEmbedding(query);
+      const [queryEmbedding, ...docEmbeddings] = await this.embeddingGenerator.generateEmbeddings([
+        query,
+        ...documents.map(doc => doc.content),
+      ]);
 
-      const scoredDocs = await Promise.all(
-        documents.map(async (doc) => {
-          const docEmbedding = await this.embeddingGenerator.generateEmbedding(doc.content);
-          const score = cosineSimilarity(queryEmbedding, docEmbedding);
-          return { document: doc, score };
-        })
-      );
+      const scoredDocs = documents.map((doc, idx) => ({
+        document: doc,
+        score: cosineSimilarity(queryEmbedding, docEmbeddings[idx]),
+      }));
 
       return scoredDocs
         .sort((a, b) => b.score - a.score)
         .slice(0, topK);
     } catch (error) {
-      console.error('Error getting top documents:', error);
+      logger.error('Error getting top documents:', error);
       throw error;
     }
   }
@@ -0,0 +1,130 @@
+/**
+ * Conversation Session Store
+ * In-memory multi-turn sessions with TTL expiry
+ */
+
+import { randomUUID } from 'crypto';
+import { ConversationTurn, Session } from '../types.js';
+
+const DEFAULT_TTL_MS = 30 * 60 * 1000;
+const DEFAULT_MAX_TURNS = 50;
+
+interface SessionStoreOptions {
+  ttlMs?: number;
+  maxTurns?: number;
+}
+
+export class SessionStore {
+  private sessions: Map<string, Session> = new Map();
+  private ttlMs: number;
+  private maxTurns: number;
+  private sweepTimer: NodeJS.Timeout;
+
+  constructor(options: SessionStoreOptions = {}) {
+    this.ttlMs = options.ttlMs || DEFAULT_TTL_MS;
+    this.maxTurns = options.maxTurns || DEFAULT_MAX_TURNS;
+
+    // Sweep expired sessions periodically without keeping the process alive
+    this.sweepTimer = setInterval(() => this.sweep(), Math.min(this.ttlMs, 60 * 1000));
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Create a new empty session, owned by an API key when given
+   */
+  create(keyId: string | null = null): Session {
+    const now = new Date();
+    const session: Session = {
+      id: randomUUID(),
+      keyId,
+      createdAt: now.toISOString(),
+      lastActiveAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + this.ttlMs).toISOString(),
+      turns: [],
+    };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  /**
+   * Get a session, or undefined if it does not exist or has expired
+   */
+  get(id: string): Session | undefined {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return undefined;
+    }
+
+    if (Date.parse(session.expiresAt) <= Date.now()) {
+      this.sessions.delete(id);
+      return undefined;
+    }
+
+    return session;
+  }
+
+  /**
+   * Get a session and extend its lifetime, or undefined if it does not exist or has expired
+   */
+  refresh(id: string): Session | undefined {
+    const session = this.get(id);
+    if (session) {
+      this.touch(session);
+    }
+    return session;
+  }
+
+  /**
+   * Record a turn and extend the session's lifetime
+   */
+  addTurn(id: string, turn: ConversationTurn): Session {
+    const session = this.get(id);
+    if (!session) {
+      throw new Error(`Session not found: ${id}`);
+    }
+
+    session.turns.push(turn);
+    if (session.turns.length > this.maxTurns) {
+      session.turns.splice(0, session.turns.length - this.maxTurns);
+    }
+    this.touch(session);
+    return session;
+  }
+
+  /**
+   * Delete a session
+   */
+  delete(id: string): boolean {
+    return this.sessions.delete(id);
+  }
+
+  /**
+   * Get the number of live sessions
+   */
+  size(): number {
+    this.sweep();
+    return this.sessions.size;
+  }
+
+  /**
+   * Stop the background sweep
+   */
+  close(): void {
+    clearInterval(this.sweepTimer);
+  }
+
+  private touch(session: Session): void {
+    const now = Date.now();
+    session.lastActiveAt = new Date(now).toISOString();
+    session.expiresAt = new Date(now + this.ttlMs).toISOString();
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [id, session] of this.sessions) {
+      if (Date.parse(session.expiresAt) <= now) {
+        this.sessions.delete(id);
+      }
+    }
+  }
+}
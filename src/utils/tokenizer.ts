@@ -0,0 +1,41 @@
+/**
+ * Lightweight Text Tokenizer
+ * Shared by the local provider and keyword-based scoring
+ */
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from',
+  'has', 'have', 'how', 'in', 'is', 'it', 'its', 'of', 'on', 'or', 'that',
+  'the', 'this', 'to', 'was', 'were', 'what', 'when', 'where', 'which',
+  'who', 'why', 'will', 'with', 'does', 'do', 'did', 'can', 'about',
+]);
+
+// Word pieces, short digit groups and single punctuation marks, approximating BPE tokens
+const TOKEN_PATTERN = /[A-Za-z]+|\d{1,3}|[^\sA-Za-z\d]/g;
+
+/**
+ * Split text into lowercase terms
+ */
+export function tokenize(text: string, options: { keepStopwords?: boolean } = {}): string[] {
+  const terms = text.toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}_\-.]*[\p{L}\p{N}]|[\p{L}\p{N}]/gu) || [];
+  return options.keepStopwords ? terms : terms.filter(term => !STOPWORDS.has(term));
+}
+
+/**
+ * Split text into sentences
+ */
+export function splitSentences(text: string): string[] {
+  return (text.match(/[^.!?\n]+(?:[.!?]+|\n+|$)/g) || [])
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+}
+
+/**
+ * Locate approximate model tokens in text as character spans
+ */
+export function tokenSpans(text: string): Array<{ start: number; end: number }> {
+  return [...text.matchAll(TOKEN_PATTERN)].map(match => ({
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+}
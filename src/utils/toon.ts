@@ -0,0 +1,76 @@
+/**
+ * TOON Serialization Utilities
+ * Content negotiation between JSON and TOON for API routes
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { encode, decode } from '@toon-format/toon';
+
+export const TOON_CONTENT_TYPE = 'text/toon';
+
+/**
+ * Check whether the client asked for a TOON response.
+ * A `?format=` query parameter takes precedence over the Accept header.
+ */
+export function wantsToon(req: Request): boolean {
+  const format = req.query.format;
+  if (typeof format === 'string' && format.length > 0) {
+    return format.toLowerCase() === 'toon';
+  }
+
+  // JSON is listed first so that `*/*` and a missing Accept header keep the default
+  return req.accepts(['application/json', TOON_CONTENT_TYPE]) === TOON_CONTENT_TYPE;
+}
+
+/**
+ * Encode a value as TOON
+ */
+export function toToon(value: unknown): string {
+  return encode(value);
+}
+
+/**
+ * Decode a TOON string into a plain value
+ */
+export function fromToon<T = unknown>(text: string): T {
+  return decode(text) as T;
+}
+
+/**
+ * Middleware that makes `res.json` honor TOON content negotiation,
+ * so every route gets TOON output without changing its handler
+ */
+export function toonResponse(req: Request, res: Response, next: NextFunction): void {
+  const sendJson = res.json.bind(res);
+
+  res.vary('Accept');
+  res.json = (body?: any) => {
+    if (!wantsToon(req)) {
+      return sendJson(body);
+    }
+    res.type(TOON_CONTENT_TYPE);
+    return res.send(toToon(body));
+  };
+
+  next();
+}
+
+/**
+ * Middleware that decodes `Content-Type: text/toon` request bodies.
+ * Must run after `express.text({ type: TOON_CONTENT_TYPE })`.
+ */
+export function toonBody(req: Request, res: Response, next: NextFunction): void {
+  if (!req.is(TOON_CONTENT_TYPE) || typeof req.body !== 'string') {
+    return next();
+  }
+
+  try {
+    req.body = fromToon(req.body);
+    next();
+  } catch (error: any) {
+    res.status(400).json({
+      success: false,
+      error: `Invalid TOON body: ${error.message}`,
+    });
+  }
+}
@@ -2,135 +2,625 @@
  * Vector Store Implementation with FAISS
  */
 
-import * as FaissModule from 'faiss-node';
 import * as fs from 'fs';
-import { Document } from '../types.js';
-import { EmbeddingGenerator } from './embeddings.js';
+import { createRequire } from 'module';
+import {
+  Document,
+  EmbeddingProvider,
+  EmbeddingBatchOptions,
+  SearchResult,
+  RetrieverName,
+  SourceSummary,
+  MetadataFilter,
+  IndexStats,
+  IndexManifest,
+  IndexMismatchPolicy,
+  CallerIdentity,
+  VectorIndex,
+  VectorIndexType,
+} from '../types.js';
+import { BM25Index, reciprocalRankFusion } from './bm25.js';
+import { matchesFilter } from './metadataFilter.js';
+import { canAccess } from './acl.js';
+import { hashContent } from './hashing.js';
+import { EmbeddingBatchError } from './embeddings.js';
+import { throwIfAborted } from './rateLimit.js';
+import {
+  INDEX_FORMAT_VERSION,
+  manifestPath,
+  legacyIndexFiles,
+  readManifest,
+  readIndexFile,
+  writeFileAtomic,
+  removeIndexFiles,
+} from './indexManifest.js';
+import { logger } from './logger.js';
 
-const FaissStore = (FaissModule as any).default || FaissModule;
+const require = createRequire(import.meta.url);
+
+let faissIndexType: VectorIndexType | undefined;
+let defaultIndexType: VectorIndexType | undefined;
+
+/**
+ * FAISS IndexFlatL2. faiss-node is loaded on first use, so modules that never
+ * build an index, and stores given another index type, run without the native module.
+ */
+function getFaissIndexType(): VectorIndexType {
+  if (!faissIndexType) {
+    const { IndexFlatL2 } = require('faiss-node');
+    faissIndexType = {
+      create: dimension => new IndexFlatL2(dimension),
+      fromBuffer: buffer => IndexFlatL2.fromBuffer(buffer),
+    };
+  }
+  return faissIndexType;
+}
+
+/**
+ * Set the index type of stores created without one; FAISS IndexFlatL2 when unset
+ */
+export function setDefaultVectorIndexType(indexType?: VectorIndexType): void {
+  defaultIndexType = indexType;
+}
+
+// FAISS serialization of an IndexFlatL2: fourcc, header, float count, floats
+const FLAT_L2_FOURCC = 'IxF2';
+const FLAT_L2_HEADER_SIZE = 37;
+const METRIC_L2 = 1;
+
+/**
+ * Get the source a document belongs to; documents without one stand alone
+ */
+export function getDocumentSource(doc: Document): string {
+  return doc.metadata?.source ?? doc.id;
+}
+
+/**
+ * Get a document's content hash, computing it for documents indexed without one
+ */
+function getContentHash(doc: Document): string {
+  return doc.metadata?.contentHash ?? hashContent(doc.content);
+}
+
+/**
+ * Read the vectors out of a serialized IndexFlatL2, or null when the buffer is
+ * not one holding `count` vectors of `dimension` floats
+ */
+function readFlatL2Vectors(buffer: Buffer, dimension: number, count: number): Float32Array[] | null {
+  const floats = dimension * count;
+  const dataOffset = FLAT_L2_HEADER_SIZE + 8;
+  if (
+    buffer.length !== dataOffset + floats * 4 ||
+    buffer.toString('latin1', 0, 4) !== FLAT_L2_FOURCC ||
+    buffer.readInt32LE(4) !== dimension ||
+    buffer.readBigInt64LE(8) !== BigInt(count) ||
+    buffer.readInt32LE(33) !== METRIC_L2 ||
+    buffer.readBigUInt64LE(FLAT_L2_HEADER_SIZE) !== BigInt(floats)
+  ) {
+    return null;
+  }
+
+  const data = new Float32Array(floats);
+  new Uint8Array(data.buffer).set(buffer.subarray(dataOffset));
+  return Array.from({ length: count }, (_, i) => data.subarray(i * dimension, (i + 1) * dimension));
+}
+
+interface AddOptions extends EmbeddingBatchOptions {
+  /**
+   * Sync the sources of the new documents: chunks whose content is already
+   * indexed are kept without embedding, and chunks no longer present are removed
+   */
+  replaceSources?: boolean;
+}
+
+interface SearchOptions {
+  /**
+   * Weight of keyword (BM25) results in rank fusion, from 0 (vector only) to 1 (keyword only)
+   */
+  keywordWeight?: number;
+  /**
+   * Only documents whose metadata matches are returned
+   */
+  filter?: MetadataFilter;
+  /**
+   * Only documents this caller may access are returned
+   */
+  identity?: CallerIdentity;
+  /**
+   * Cancels embedding the query
+   */
+  signal?: AbortSignal;
+}
 
 export class FAISSVectorStore {
-  private index: any;
+  private indexType: VectorIndexType;
+  private index: VectorIndex;
   private documents: Document[] = [];
+  // Each document's vector, which IndexFlatL2 cannot hand back; null when
+  // unknown (an index whose file could not be read back)
+  private vectors: Array<Float32Array | null> = [];
+  private keywordIndex: BM25Index = new BM25Index();
   private dimension: number;
-  private embeddingGenerator: EmbeddingGenerator;
+  private embeddingGenerator: EmbeddingProvider;
 
-  constructor(dimension: number, embeddingGenerator: EmbeddingGenerator) {
+  constructor(dimension: number, embeddingGenerator: EmbeddingProvider, indexType?: VectorIndexType) {
     this.dimension = dimension;
     this.embeddingGenerator = embeddingGenerator;
-    // Initialize FAISS index with IndexFlatL2 (L2 distance)
-    this.index = new FaissStore.IndexFlatL2(dimension);
+    // Initialize FAISS index with IndexFlatL2 (L2 distance) unless told otherwise
+    this.indexType = indexType || defaultIndexType || getFaissIndexType();
+    this.index = this.indexType.create(dimension);
   }
 
   /**
    * Add documents to the vector store
    */
-  async addDocuments(documents: Document[]): Promise<void> {
+  async addDocuments(documents: Document[], options: AddOptions = {}): Promise<IndexStats> {
     if (!documents || documents.length === 0) {
       throw new Error('Documents array cannot be empty');
     }
 
-    console.log(`Adding ${documents.length} documents to vector store...`);
+    logger.log(`Adding ${documents.length} documents to vector store...`);
     
     try {
-      // Generate embeddings for all documents
-      const texts = documents.map(doc => doc.content);
-      const embeddings = await this.embeddingGenerator.generateEmbeddings(texts);
+      // Chunks whose content is already indexed for their source need no embedding
+      const embeddings = new Map<number, number[]>();
+      let plan = this.planSync(documents, options.replaceSources);
+      // Progress counts reused chunks as already embedded
+      const onProgress = options.onProgress &&
+        ((embedded: number) => options.onProgress(plan.reused.size + embedded, documents.length));
+      onProgress?.(0);
 
-      // Add embeddings to FAISS index
-      for (let i = 0; i < embeddings.length; i++) {
-        if (!this.embeddingGenerator.validateEmbedding(embeddings[i])) {
-          throw new Error(`Invalid embedding dimension at index ${i}`);
+      // Other changes may land while embeddings are generated (deletes, other
+      // uploads, clear), so positions are only matched once nothing is awaited.
+      // Chunks whose indexed copy disappeared meanwhile are embedded in another round.
+      let missing = documents.map((_, i) => i).filter(i => !plan.reused.has(i));
+      while (missing.length > 0) {
+        const batch = missing;
+        let vectors: number[][];
+        try {
+          vectors = await this.embeddingGenerator.generateEmbeddings(
+            batch.map(i => documents[i].content),
+            { signal: options.signal, onProgress: embeddings.size === 0 ? onProgress : undefined }
+          );
+        } catch (error) {
+          // Name the chunks that failed
+          if (error instanceof EmbeddingBatchError) {
+            throw new EmbeddingBatchError(
+              error.failures.map(failure => ({ ...failure, id: documents[batch[failure.index]].id })),
+              error.total
+            );
+          }
+          throw error;
         }
-        this.index.add(embeddings[i]);
-        this.documents.push(documents[i]);
+
+        vectors.forEach((vector, j) => {
+          if (!Array.isArray(vector) || vector.length !== this.dimension) {
+            throw new Error(`Invalid embedding dimension at index ${j}`);
+          }
+          embeddings.set(batch[j], vector);
+        });
+
+        plan = this.planSync(documents, options.replaceSources);
+        missing = documents.map((_, i) => i).filter(i => !plan.reused.has(i) && !embeddings.has(i));
       }
 
-      console.log(`Successfully added ${documents.length} documents`);
+      // The index only changes once the new chunks are embedded,
+      // so a failed or cancelled upload leaves the previous version searchable
+      throwIfAborted(options.signal);
+      const { reused, stale } = plan;
+      reused.forEach((position, i) => {
+        this.documents[position] = documents[i];
+      });
+      this.removePositions(stale);
+
+      // Add embeddings to FAISS index
+      const added = documents.filter((_, i) => !reused.has(i));
+      documents.forEach((doc, i) => {
+        if (reused.has(i)) return;
+        this.index.add(embeddings.get(i));
+        this.vectors.push(Float32Array.from(embeddings.get(i)));
+        this.documents.push(doc);
+        this.keywordIndex.add(doc.content);
+      });
+
+      logger.log(`Added ${added.length} documents, kept ${reused.size} unchanged, removed ${stale.length}`);
+      return { added: added.length, unchanged: reused.size, removed: stale.length };
     } catch (error) {
-      console.error('Error adding documents to vector store:', error);
+      logger.error('Error adding documents to vector store:', error);
       throw error;
     }
   }
 
   /**
-   * Search for similar documents
+   * Match new documents to indexed chunks of the same source with the same
+   * content. Returns the position each reused document replaces, and the
+   * positions of chunks of those sources that are no longer present.
+   * Positions change with every mutation, so the result must be applied
+   * without awaiting in between.
    */
-  async search(query: string, topK: number): Promise<Document[]> {
+  private planSync(
+    documents: Document[],
+    replaceSources?: boolean
+  ): { reused: Map<number, number>; stale: number[] } {
+    const reused = new Map<number, number>();
+    if (!replaceSources) {
+      return { reused, stale: [] };
+    }
+
+    const sources = new Set(documents.map(getDocumentSource));
+    const indexed = new Map<string, number[]>();
+    this.documents.forEach((doc, position) => {
+      const source = getDocumentSource(doc);
+      if (!sources.has(source)) return;
+      const key = `${source}\0${getContentHash(doc)}`;
+      indexed.set(key, [...(indexed.get(key) || []), position]);
+    });
+
+    documents.forEach((doc, i) => {
+      const positions = indexed.get(`${getDocumentSource(doc)}\0${getContentHash(doc)}`);
+      if (positions && positions.length > 0) {
+        reused.set(i, positions.shift());
+      }
+    });
+    return { reused, stale: [...indexed.values()].flat() };
+  }
+
+  /**
+   * Search for similar documents.
+   * Dense (FAISS) and keyword (BM25) results are combined by reciprocal rank fusion.
+   */
+  async search(
+    query: string,
+    topK: number,
+    options: SearchOptions = {}
+  ): Promise<SearchResult[]> {
     if (!query || query.trim().length === 0) {
       throw new Error('Query cannot be empty');
     }
 
+    // An empty store has nothing to find, which is not an error when several
+    // collections are searched together
     if (this.documents.length === 0) {
-      throw new Error('Vector store is empty');
+      return [];
     }
 
-    console.log(`Searching for: "${query}"`);
+    const keywordWeight = Math.min(Math.max(options.keywordWeight ?? 0, 0), 1);
+
+    logger.log(`Searching for: "${query}"`);
     
     try {
-      // Generate embedding for query
-      const queryEmbedding = await this.embeddingGenerator.generateEmbedding(query);
+      // Embed the query first: positions are only valid until the next await
+      const queryEmbedding = keywordWeight < 1
+        ? (await this.embeddingGenerator.generateEmbeddings([query], { signal: options.signal }))[0]
+        : null;
+      throwIfAborted(options.signal);
+      if (this.documents.length === 0) {
+        return [];
+      }
+
+      // Resolve the filter and access control up front so both retrievers cut
+      // top K from matching documents only and hidden documents never rank
+      let accepted: Set<number> | undefined;
+      let visible: Set<number> | undefined;
+      if (options.filter || options.identity) {
+        accepted = new Set();
+        visible = options.identity ? new Set() : undefined;
+        this.documents.forEach((doc, position) => {
+          if (!canAccess(doc, options.identity)) return;
+          visible?.add(position);
+          if (!options.filter || matchesFilter(doc, options.filter)) accepted.add(position);
+        });
+        logger.log(`Filter matched ${accepted.size} of ${this.documents.length} documents`);
+        if (accepted.size === 0) {
+          return [];
+        }
+      }
 
       // Ensure topK doesn't exceed document count
-      const k = Math.min(topK, this.documents.length);
+      const k = Math.min(topK, accepted ? accepted.size : this.documents.length);
 
-      // Search in FAISS index
-      const results = this.index.search(queryEmbedding, k);
-      
-      // Return matched documents
-      return results.labels.map((idx: number) => this.documents[idx]);
+      const vectorDistances = new Map<number, number>();
+      if (queryEmbedding) {
+        // Search in FAISS index. IndexFlatL2 cannot filter natively, so widen
+        // the search until enough matching documents are found.
+        let searchK = accepted ? Math.min(k * 4, this.documents.length) : k;
+        while (true) {
+          vectorDistances.clear();
+          const results = this.index.search(queryEmbedding, searchK);
+          results.labels.forEach((idx: number, i: number) => {
+            if (idx < 0 || vectorDistances.size >= k) return;
+            if (!accepted || accepted.has(idx)) vectorDistances.set(idx, results.distances[i]);
+          });
+          if (vectorDistances.size >= k || searchK >= this.documents.length) break;
+          searchK = Math.min(searchK * 2, this.documents.length);
+        }
+      }
+
+      const keywordScores = new Map<number, number>();
+      if (keywordWeight > 0) {
+        // Keyword statistics come from the documents the caller may access, so
+        // hidden documents do not shift the scores of visible ones
+        const accept = accepted ? (position: number) => accepted.has(position) : undefined;
+        const isVisible = visible ? (position: number) => visible.has(position) : undefined;
+        for (const { position, score } of this.keywordIndex.search(query, k, accept, isVisible)) {
+          keywordScores.set(position, score);
+        }
+      }
+
+      const vectorPositions = [...vectorDistances.keys()];
+      const keywordPositions = [...keywordScores.keys()];
+
+      const fused = reciprocalRankFusion([
+        { items: vectorPositions, weight: 1 - keywordWeight },
+        { items: keywordPositions, weight: keywordWeight },
+      ]).slice(0, k);
+
+      // Return matched documents with their scores and the retrievers that found them
+      return fused.map(({ item: position, score }) => {
+        const retrievers: RetrieverName[] = [];
+        if (vectorDistances.has(position)) retrievers.push('vector');
+        if (keywordScores.has(position)) retrievers.push('keyword');
+        return {
+          document: this.documents[position],
+          score,
+          vectorDistance: vectorDistances.get(position),
+          keywordScore: keywordScores.get(position),
+          retrievers,
+          embedding: this.vectors[position] ? Array.from(this.vectors[position]) : undefined,
+        };
+      });
     } catch (error) {
-      console.error('Error searching vector store:', error);
+      logger.error('Error searching vector store:', error);
       throw error;
     }
   }
 
   /**
-   * Save index to disk
+   * Save index to disk: data files for a new generation first, then the manifest
+   * that points at them, then the previous generation's files are removed
    */
-  saveIndex(filepath: string): void {
+  saveIndex(filepath: string): IndexManifest {
     try {
-      this.index.write(filepath);
-      fs.writeFileSync(
-        filepath + '.docs.json',
-        JSON.stringify(this.documents, null, 2)
+      const previous = fs.existsSync(manifestPath(filepath)) ? readManifest(filepath) : null;
+      const generation = (previous?.generation ?? 0) + 1;
+      const prefix = `${filepath}.${generation}`;
+
+      const files = {
+        vectors: writeFileAtomic(`${prefix}.faiss`, tempFile => this.index.write(tempFile)),
+        documents: writeFileAtomic(`${prefix}.docs.json`, tempFile =>
+          fs.writeFileSync(tempFile, JSON.stringify(this.documents))
+        ),
+        keywords: writeFileAtomic(`${prefix}.bm25.json`, tempFile =>
+          fs.writeFileSync(tempFile, JSON.stringify(this.keywordIndex.toJSON()))
+        ),
+      };
+
+      const manifest: IndexManifest = {
+        formatVersion: INDEX_FORMAT_VERSION,
+        generation,
+        savedAt: new Date().toISOString(),
+        embeddingModel: this.embeddingGenerator.getModelName(),
+        dimension: this.dimension,
+        documentCount: this.documents.length,
+        chunking: this.getChunkingSummary(),
+        files,
+      };
+      writeFileAtomic(manifestPath(filepath), tempFile =>
+        fs.writeFileSync(tempFile, JSON.stringify(manifest, null, 2))
       );
-      console.log(`Index saved to ${filepath}`);
+
+      // The new manifest is in place, so older files can go
+      const stale = [
+        ...Object.values(previous?.files ?? {}).map(entry => entry.file),
+        ...Object.values(legacyIndexFiles(filepath)),
+      ];
+      removeIndexFiles(filepath, stale, manifest);
+
+      logger.log(`Index saved to ${filepath} (generation ${generation}, ${this.documents.length} documents)`);
+      return manifest;
     } catch (error) {
-      console.error('Error saving index:', error);
+      logger.error('Error saving index:', error);
       throw error;
     }
   }
 
   /**
-   * Load index from disk
+   * Load index from disk, checking its files against the manifest and its
+   * embedding model against the current one. On a model or dimension mismatch the
+   * load is refused, or with `onMismatch: 'reembed'` the documents are embedded again.
+   * Returns the manifest, or null for an index saved before manifests existed.
    */
-  loadIndex(filepath: string): void {
+  async loadIndex(
+    filepath: string,
+    options: { onMismatch?: IndexMismatchPolicy } = {}
+  ): Promise<IndexManifest | null> {
     try {
-      this.index = FaissStore.read(filepath);
-      this.documents = JSON.parse(
-        fs.readFileSync(filepath + '.docs.json', 'utf-8')
-      );
-      console.log(`Index loaded from ${filepath}`);
+      const manifest = readManifest(filepath);
+      let index: VectorIndex;
+      let indexBuffer: Buffer;
+      let documents: Document[];
+      let keywordIndex: BM25Index | null = null;
+
+      if (manifest) {
+        indexBuffer = readIndexFile(filepath, manifest.files.vectors);
+        index = this.indexType.fromBuffer(indexBuffer);
+        documents = JSON.parse(readIndexFile(filepath, manifest.files.documents).toString('utf-8'));
+        keywordIndex = BM25Index.fromJSON(
+          JSON.parse(readIndexFile(filepath, manifest.files.keywords).toString('utf-8'))
+        );
+      } else {
+        const legacy = legacyIndexFiles(filepath);
+        if (!fs.existsSync(legacy.vectors) || !fs.existsSync(legacy.documents)) {
+          throw new Error(`No saved index at ${filepath}`);
+        }
+        logger.warn(`Index ${filepath} has no manifest; it is upgraded on the next save`);
+        indexBuffer = fs.readFileSync(legacy.vectors);
+        index = this.indexType.fromBuffer(indexBuffer);
+        documents = JSON.parse(fs.readFileSync(legacy.documents, 'utf-8'));
+        // Indexes saved before keyword search existed are rebuilt from the documents
+        if (fs.existsSync(legacy.keywords)) {
+          keywordIndex = BM25Index.fromJSON(JSON.parse(fs.readFileSync(legacy.keywords, 'utf-8')));
+        }
+      }
+
+      if (!Array.isArray(documents) || index.ntotal() !== documents.length ||
+        (manifest && manifest.documentCount !== documents.length)) {
+        throw new Error(`Index ${filepath} is inconsistent: ${index.ntotal()} vectors for ${documents?.length} documents`);
+      }
+
+      const modelName = this.embeddingGenerator.getModelName();
+      const savedDimension = manifest ? manifest.dimension : index.getDimension();
+      const mismatch = savedDimension !== this.dimension
+        ? `dimension ${savedDimension}, but the current model produces ${this.dimension}`
+        : manifest && manifest.embeddingModel !== modelName
+          ? `model ${manifest.embeddingModel}, but the current model is ${modelName}`
+          : null;
+
+      let vectors: Array<Float32Array | null> = readFlatL2Vectors(indexBuffer, this.dimension, documents.length) ||
+        documents.map(() => null);
+
+      if (mismatch) {
+        if (options.onMismatch !== 'reembed') {
+          throw new Error(
+            `Index ${filepath} was built with ${mismatch}. ` +
+            'Re-ingest the documents, or load with re-embedding enabled (RAG_INDEX_MISMATCH=reembed)'
+          );
+        }
+        logger.log(`Index ${filepath} was built with ${mismatch}; re-embedding ${documents.length} documents`);
+        index = this.indexType.create(this.dimension);
+        if (documents.length > 0) {
+          const embeddings = await this.embeddingGenerator.generateEmbeddings(documents.map(doc => doc.content));
+          embeddings.forEach(embedding => index.add(embedding));
+          vectors = embeddings.map(embedding => Float32Array.from(embedding));
+        }
+      }
+
+      if (!keywordIndex || keywordIndex.size() !== documents.length) {
+        keywordIndex = BM25Index.fromTexts(documents.map(doc => doc.content));
+      }
+
+      this.index = index;
+      this.documents = documents;
+      this.vectors = vectors;
+      this.keywordIndex = keywordIndex;
+      logger.log(`Index loaded from ${filepath} (${documents.length} documents)`);
+      return manifest;
     } catch (error) {
-      console.error('Error loading index:', error);
+      logger.error('Error loading index:', error);
       throw error;
     }
   }
 
   /**
-   * Get document count
+   * Count documents per chunking setting, for the manifest
+   */
+  private getChunkingSummary(): IndexManifest['chunking'] {
+    const summary = new Map<string, IndexManifest['chunking'][number]>();
+    for (const doc of this.documents) {
+      const strategy = doc.metadata?.chunkStrategy ?? null;
+      const chunkSize = doc.metadata?.chunkSize ?? null;
+      const chunkOverlap = doc.metadata?.chunkOverlap ?? null;
+      const key = `${strategy}/${chunkSize}/${chunkOverlap}`;
+      const entry = summary.get(key) || { strategy, chunkSize, chunkOverlap, documents: 0 };
+      entry.documents++;
+      summary.set(key, entry);
+    }
+    return [...summary.values()];
+  }
+
+  /**
+   * Delete every chunk of a source
+   */
+  deleteSource(source: string): number {
+    const removed = this.removeWhere(doc => getDocumentSource(doc) === source);
+    if (removed > 0) {
+      logger.log(`Deleted ${removed} chunks of ${source}`);
+    }
+    return removed;
+  }
+
+  /**
+   * Summarize indexed sources, only counting documents the caller may access
+   */
+  getSources(identity?: CallerIdentity): SourceSummary[] {
+    const summaries = new Map<string, SourceSummary>();
+
+    for (const doc of this.documents) {
+      if (!canAccess(doc, identity)) {
+        continue;
+      }
+      const source = getDocumentSource(doc);
+      const summary = summaries.get(source);
+      if (summary) {
+        summary.chunkCount++;
+        continue;
+      }
+      summaries.set(source, {
+        source,
+        chunkCount: 1,
+        pages: doc.metadata?.pages ?? null,
+        title: doc.metadata?.title ?? null,
+        uploadedAt: doc.metadata?.uploadedAt ?? null,
+        fileHash: doc.metadata?.fileHash ?? null,
+      });
+    }
+
+    return [...summaries.values()];
+  }
+
+  /**
+   * Get the chunks of a source that the caller may access, in chunk order
+   */
+  getDocumentsBySource(source: string, identity?: CallerIdentity): Document[] {
+    // Chunks kept by an incremental re-index stay at their old positions, so sort explicitly
+    return this.documents
+      .filter(doc => getDocumentSource(doc) === source && canAccess(doc, identity))
+      .sort((a, b) => (a.metadata?.chunkIndex ?? 0) - (b.metadata?.chunkIndex ?? 0));
+  }
+
+  /**
+   * Remove matching documents
+   */
+  private removeWhere(predicate: (doc: Document) => boolean): number {
+    const positions: number[] = [];
+    this.documents.forEach((doc, position) => {
+      if (predicate(doc)) positions.push(position);
+    });
+    return this.removePositions(positions);
+  }
+
+  /**
+   * Remove documents from FAISS, the document list and the keyword index.
+   * IndexFlat compacts on removal and keeps order, so positions stay aligned.
+   */
+  private removePositions(positions: number[]): number {
+    if (positions.length === 0) {
+      return 0;
+    }
+
+    this.index.removeIds(positions);
+    const removed = new Set(positions);
+    this.documents = this.documents.filter((_, position) => !removed.has(position));
+    this.vectors = this.vectors.filter((_, position) => !removed.has(position));
+    this.keywordIndex = BM25Index.fromTexts(this.documents.map(doc => doc.content));
+    return positions.length;
+  }
+
+  /**
+   * Get document count, or the number of documents a caller may access
    */
-  getDocumentCount(): number {
-    return this.documents.length;
+  getDocumentCount(identity?: CallerIdentity): number {
+    return identity ? this.documents.filter(doc => canAccess(doc, identity)).length : this.documents.length;
   }
 
   /**
    * Clear the store
    */
   clear(): void {
-    this.index = new FaissStore.IndexFlatL2(this.dimension);
+    this.index = this.indexType.create(this.dimension);
     this.documents = [];
+    this.vectors = [];
+    this.keywordIndex.clear();
   }
 
   /**
@@ -0,0 +1,200 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChatProvider, ChatRequest, Document, RAGResponse } from '../src/types.js';
+import { aclAllows, canAccess, parseAcl } from '../src/utils/acl.js';
+import { LocalEmbeddingProvider } from '../src/utils/localProvider.js';
+import { RAGSystem } from '../src/utils/ragSystem.js';
+import { setDefaultVectorIndexType } from '../src/utils/vectorStore.js';
+import { memoryIndexType, startApp } from './support.js';
+
+setDefaultVectorIndexType(memoryIndexType);
+
+const PUBLIC_DOCS: Document[] = [
+  { id: 'manual-0', content: 'Pump P-100 needs service every 500 hours.', metadata: { source: 'manual.txt', chunkIndex: 0 } },
+  { id: 'manual-1', content: 'Valve V-7 is tightened to 40 Nm.', metadata: { source: 'manual.txt', chunkIndex: 1 } },
+];
+
+const RESTRICTED_DOC: Document = {
+  id: 'hr-0',
+  content: 'Pump P-100 pump pump operator salary bands are confidential.',
+  metadata: { source: 'hr.txt', chunkIndex: 0, acl: ['group:hr'] },
+};
+
+/**
+ * Chat provider that records every request and answers with a fixed string
+ */
+class RecordingChatProvider implements ChatProvider {
+  requests: ChatRequest[] = [];
+
+  async generate(request: ChatRequest): Promise<string> {
+    this.requests.push(request);
+    return 'answer';
+  }
+
+  getModelName(): string {
+    return 'recording';
+  }
+}
+
+async function systemWith(documents: Document[]) {
+  const chatProvider = new RecordingChatProvider();
+  const rag = new RAGSystem({
+    provider: 'local',
+    embeddingProvider: new LocalEmbeddingProvider(64),
+    chatProvider,
+    embeddingCacheSize: 0,
+    keywordWeight: 0.5,
+    rerankTopK: 5,
+  });
+  await rag.indexDocuments(documents);
+  return { rag, chatProvider };
+}
+
+const guest = { principals: ['key:guest'] };
+
+test('a document is visible when its ACL is empty or shares a principal with the caller', () => {
+  assert.equal(canAccess(PUBLIC_DOCS[0], guest), true);
+  assert.equal(canAccess(RESTRICTED_DOC, guest), false);
+  assert.equal(canAccess(RESTRICTED_DOC, { principals: ['key:hr-bot', 'group:hr'] }), true);
+  assert.equal(canAccess(RESTRICTED_DOC), true, 'without an identity access control is off');
+  assert.equal(aclAllows([], guest), true);
+  assert.equal(aclAllows(null, guest), true);
+  assert.equal(aclAllows(['group:hr'], guest), false);
+});
+
+test('ACLs are read from arrays, JSON arrays and comma-separated lists', () => {
+  assert.deepEqual(parseAcl('user:alice, group:hr, user:alice'), ['user:alice', 'group:hr']);
+  assert.deepEqual(parseAcl('["group:hr"]'), ['group:hr']);
+  assert.deepEqual(parseAcl(['group:hr']), ['group:hr']);
+  assert.equal(parseAcl(''), undefined);
+  assert.equal(parseAcl(' , '), undefined);
+  assert.deepEqual(parseAcl('[not json'), { error: 'acl must be a JSON array or a comma-separated list of principals' });
+  assert.deepEqual(parseAcl(['user alice']), {
+    error: 'acl must list principals without whitespace or commas, e.g. ["user:alice", "group:hr"]',
+  });
+});
+
+test('a restricted chunk never reaches the sources or the prompt', async () => {
+  const { rag, chatProvider } = await systemWith([...PUBLIC_DOCS, RESTRICTED_DOC]);
+
+  const response = await rag.query('pump P-100 salary', { identity: guest });
+
+  assert.ok(response.sources.length > 0);
+  assert.ok(response.sources.every(source => source.metadata.source === 'manual.txt'));
+  for (const request of chatProvider.requests) {
+    assert.ok(!request.prompt.includes('salary bands'), 'prompt contains the restricted chunk');
+    assert.ok(!(request.passages ?? []).some(passage => passage.includes('salary bands')));
+  }
+
+  const hr = await rag.query('pump P-100 salary', { identity: { principals: ['group:hr'] } });
+  assert.ok(hr.sources.some(source => source.metadata.source === 'hr.txt'));
+});
+
+test('a restricted chunk does not change the scores of visible ones', async () => {
+  const { rag: withRestricted } = await systemWith([...PUBLIC_DOCS, RESTRICTED_DOC]);
+  const { rag: withoutRestricted } = await systemWith(PUBLIC_DOCS);
+
+  const scoresOf = (response: RAGResponse) =>
+    response.sources.map(source => ({ id: source.id, scores: source.scores }));
+  assert.deepEqual(
+    scoresOf(await withRestricted.query('pump P-100', { identity: guest })),
+    scoresOf(await withoutRestricted.query('pump P-100', { identity: guest }))
+  );
+});
+
+test('document counts leave out restricted chunks', async () => {
+  const { rag } = await systemWith([...PUBLIC_DOCS, RESTRICTED_DOC]);
+  assert.equal(rag.getDocumentCount(guest), 2);
+  assert.deepEqual(rag.getSources(guest).map(item => item.source), ['manual.txt']);
+  assert.equal(rag.getDocumentCount(), 3);
+});
+
+const app = await startApp({
+  keys: [
+    { id: 'alice', key: 'alice-key', grants: [{ role: 'writer' }], principals: ['user:alice'] },
+    { id: 'bob', key: 'bob-key', grants: [{ role: 'writer' }], principals: ['user:bob'] },
+    { id: 'hr', key: 'hr-key', grants: [{ role: 'reader' }], principals: ['group:hr'] },
+  ],
+});
+after(() => app.close());
+
+/**
+ * Upload a text file and wait for its ingestion job to finish
+ */
+async function upload(key: string, filename: string, content: string, acl?: string) {
+  const form = new FormData();
+  form.append('file', new Blob([content], { type: 'text/plain' }), filename);
+  if (acl) {
+    form.append('acl', acl);
+  }
+  const response = await app.request('/api/upload', { method: 'POST', key, body: form });
+  if (response.status === 202) {
+    while (['queued', 'running'].includes((await app.request(`/api/jobs/${response.body.jobId}`, { key })).body.job.status)) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  }
+  return response;
+}
+
+test('jobs of a restricted upload are hidden from callers outside its ACL', async () => {
+  const { status, body } = await upload('alice-key', 'salaries.txt', 'Salary bands are confidential.', 'group:hr');
+  assert.equal(status, 202);
+  const jobId = body.jobId;
+
+  for (const key of ['alice-key', 'hr-key']) {
+    const job = await app.request(`/api/jobs/${jobId}`, { key });
+    assert.equal(job.status, 200, key);
+    assert.equal(job.body.job.status, 'completed');
+    assert.deepEqual(job.body.job.acl, ['group:hr']);
+    assert.equal(job.body.job.keyId, 'alice');
+  }
+
+  const hidden = await app.request(`/api/jobs/${jobId}`, { key: 'bob-key' });
+  assert.deepEqual([hidden.status, hidden.body.error], [404, `Job not found: ${jobId}`]);
+  assert.equal((await app.request(`/api/jobs/${jobId}`, { method: 'DELETE', key: 'bob-key' })).status, 404);
+  const listed = await app.request('/api/jobs', { key: 'bob-key' });
+  assert.ok(!listed.body.jobs.some((job: { id: string }) => job.id === jobId));
+});
+
+test('replacing a hidden source is refused like any source outside the grants', async () => {
+  assert.equal((await upload('alice-key', 'reviews.txt', 'Reviews are private.', 'user:alice')).status, 202);
+
+  const hidden = await upload('bob-key', 'reviews.txt', 'Overwritten.');
+  const missing = await upload('bob-key', 'other.txt', 'Not indexed yet.');
+  assert.equal(missing.status, 202);
+  assert.deepEqual([hidden.status, hidden.body.error], [403, 'Requires the writer role for reviews.txt in collection default']);
+
+  const indexed = await app.request('/api/index', {
+    key: 'bob-key',
+    json: { documents: [{ id: 'r', content: 'Overwritten.', metadata: { source: 'reviews.txt' } }] },
+  });
+  assert.deepEqual([indexed.status, indexed.body.error], [403, 'Requires the writer role for reviews.txt in collection default']);
+
+  const chunks = await app.request('/api/documents/reviews.txt/chunks', { key: 'alice-key' });
+  assert.deepEqual(chunks.body.chunks.map((chunk: Document) => chunk.content), ['Reviews are private.']);
+});
+
+test('a source is only deleted when every chunk of it is visible', async () => {
+  const indexed = await app.request('/api/index', {
+    key: 'alice-key',
+    json: {
+      documents: [
+        { id: 'plan-0', content: 'Roadmap for the pump line.', metadata: { source: 'plan.txt' } },
+        { id: 'plan-1', content: 'Budget for the pump line.', metadata: { source: 'plan.txt', acl: ['user:alice'] } },
+        { id: 'memo-0', content: 'Memo on the pump line.', metadata: { source: 'memo.txt', acl: ['user:alice'] } },
+      ],
+    },
+  });
+  assert.equal(indexed.status, 200);
+
+  const refused = await app.request('/api/documents/plan.txt', { method: 'DELETE', key: 'bob-key' });
+  assert.deepEqual([refused.status, refused.body.error], [403, 'Requires the writer role for plan.txt in collection default']);
+  const chunks = await app.request('/api/documents/plan.txt/chunks', { key: 'alice-key' });
+  assert.equal(chunks.body.total, 2);
+
+  const hidden = await app.request('/api/documents/memo.txt', { method: 'DELETE', key: 'bob-key' });
+  assert.equal(hidden.status, 404);
+
+  const deleted = await app.request('/api/documents/plan.txt', { method: 'DELETE', key: 'alice-key' });
+  assert.deepEqual([deleted.status, deleted.body.chunksDeleted], [200, 2]);
+});
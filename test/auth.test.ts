@@ -0,0 +1,91 @@
+import { test, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import { AuditEntry } from '../src/types.js';
+import { startApp } from './support.js';
+
+const app = await startApp({
+  keys: [
+    { id: 'admin', key: 'admin-key', grants: [{ role: 'admin' }] },
+    { id: 'reader', key: 'reader-key', grants: [{ role: 'reader' }] },
+    { id: 'limited', key: 'limited-key', grants: [{ role: 'reader' }], quota: { requestsPerMinute: 2, tokensPerDay: 1 } },
+  ],
+});
+after(() => app.close());
+
+const indexed = await app.request('/api/index', {
+  key: 'admin-key',
+  json: { documents: [{ id: 'pump', content: 'Pump P-100 needs service every 500 hours.', metadata: { source: 'pump.txt' } }] },
+});
+assert.equal(indexed.status, 200);
+
+function lastAuditEntry(): AuditEntry {
+  const lines = fs.readFileSync(app.auditLogPath, 'utf-8').trim().split('\n');
+  return JSON.parse(lines[lines.length - 1]);
+}
+
+test('a reader is refused every write and admin route but may read', async () => {
+  const denied: [string, string, unknown?][] = [
+    ['POST', '/api/index', { documents: [{ id: 'x', content: 'x' }] }],
+    ['DELETE', '/api/documents/pump.txt'],
+    ['POST', '/api/clear', {}],
+    ['POST', '/api/save', {}],
+    ['POST', '/api/collections', { name: 'manuals' }],
+  ];
+  for (const [method, urlPath, json] of denied) {
+    const response = await app.request(urlPath, { method, key: 'reader-key', json });
+    assert.equal(response.status, 403, `${method} ${urlPath}`);
+    assert.match(response.body.error, /^Requires the (writer|admin) role/);
+  }
+
+  const documents = await app.request('/api/documents', { key: 'reader-key' });
+  assert.equal(documents.status, 200);
+  assert.deepEqual(documents.body.sources.map((item: { source: string }) => item.source), ['pump.txt']);
+});
+
+test('a rejected request is written to the audit log', async () => {
+  const response = await app.request('/api/index', { key: 'reader-key', json: { documents: [{ id: 'x', content: 'x' }] } });
+  assert.equal(response.status, 403);
+
+  const entry = lastAuditEntry();
+  assert.equal(entry.keyId, 'reader');
+  assert.equal(entry.method, 'POST');
+  assert.equal(entry.path, '/api/index');
+  assert.equal(entry.status, 403);
+  assert.match(entry.reason, /Requires the writer role/);
+  assert.ok(!Number.isNaN(Date.parse(entry.timestamp)));
+
+  assert.equal((await app.request('/api/me')).status, 401);
+  const { keyId, status, reason } = lastAuditEntry();
+  assert.deepEqual({ keyId, status, reason }, { keyId: null, status: 401, reason: 'Missing API key' });
+});
+
+test('exhausted quotas answer 429 until their window resets', async () => {
+  mock.timers.enable({ apis: ['Date'], now: Date.UTC(2026, 0, 1, 12, 0, 30) });
+  try {
+    assert.equal((await app.request('/api/me', { key: 'limited-key' })).status, 200);
+    const query = await app.request('/api/query', { key: 'limited-key', json: { query: 'How often is P-100 serviced?' } });
+    assert.equal(query.status, 200);
+
+    const limited = await app.request('/api/me', { key: 'limited-key' });
+    assert.equal(limited.status, 429);
+    assert.equal(limited.headers.get('retry-after'), '30');
+    assert.match(limited.body.error, /Request quota of 2 per minute exceeded/);
+    assert.equal(lastAuditEntry().status, 429);
+
+    // A new minute restores requests, but the tokens used by the query last until tomorrow
+    mock.timers.tick(30 * 1000);
+    const me = await app.request('/api/me', { key: 'limited-key' });
+    assert.equal(me.status, 200);
+    assert.equal(me.body.usage.requestsThisMinute, 1);
+    const overTokens = await app.request('/api/query', { key: 'limited-key', json: { query: 'Which pump?' } });
+    assert.equal(overTokens.status, 429);
+    assert.match(overTokens.body.error, /Token quota of 1 per day exceeded/);
+
+    mock.timers.tick(12 * 60 * 60 * 1000);
+    const nextDay = await app.request('/api/query', { key: 'limited-key', json: { query: 'Which pump?' } });
+    assert.equal(nextDay.status, 200);
+  } finally {
+    mock.timers.reset();
+  }
+});
@@ -0,0 +1,24 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BM25Index } from '../src/utils/bm25.js';
+
+test('documents outside the visible set do not change keyword scores', () => {
+  const visibleTexts = ['pump P-100 service interval', 'valve V-7 torque settings', 'pump curves for P-200'];
+  const hiddenText = 'pump pump pump P-100 salary review';
+
+  const withHidden = BM25Index.fromTexts([...visibleTexts, hiddenText]);
+  const hiddenPosition = visibleTexts.length;
+  const visible = (position: number) => position !== hiddenPosition;
+  const withoutHidden = BM25Index.fromTexts(visibleTexts);
+
+  for (const query of ['pump P-100', 'salary', 'torque']) {
+    assert.deepEqual(withHidden.search(query, 10, undefined, visible), withoutHidden.search(query, 10), query);
+  }
+});
+
+test('accept limits the results but not the statistics', () => {
+  const index = BM25Index.fromTexts(['pump one', 'pump two', 'valve three']);
+  const all = index.search('pump', 10);
+  const accepted = index.search('pump', 10, position => position === 1);
+  assert.deepEqual(accepted, all.filter(result => result.position === 1));
+});
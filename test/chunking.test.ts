@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EmbeddingProvider } from '../src/types.js';
+import { CHUNK_STRATEGIES, chunkSemantically, getChunker, isChunkStrategy } from '../src/utils/chunking.js';
+
+test('isChunkStrategy accepts only the registered strategies', () => {
+  for (const strategy of CHUNK_STRATEGIES) {
+    assert.equal(isChunkStrategy(strategy), true, strategy);
+  }
+  for (const value of ['constructor', 'toString', '__proto__', 'valueOf', 'words', '', null]) {
+    assert.equal(isChunkStrategy(value), false, String(value));
+  }
+});
+
+test('getChunker rejects inherited property names', () => {
+  assert.throws(() => getChunker('constructor' as any), /Unknown chunking strategy/);
+});
+
+/**
+ * Embeds each text on two topic axes by keyword, so similarity is 1 within a
+ * topic and 0 across topics
+ */
+class TopicEmbeddingProvider implements EmbeddingProvider {
+  requests: string[][] = [];
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    const [embedding] = await this.generateEmbeddings([text]);
+    return embedding;
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    this.requests.push(texts);
+    return texts.map(text => (/cat/i.test(text) ? [1, 0] : [0, 1]));
+  }
+
+  getDimension(): number {
+    return 2;
+  }
+
+  getModelName(): string {
+    return 'topic';
+  }
+}
+
+const CATS = ['Cats sleep a lot.', 'A cat purrs softly.', 'Cats chase mice.'];
+const ROCKETS = ['Rockets burn fuel.', 'A rocket needs thrust.', 'Rockets reach orbit.'];
+
+test('semantic chunks break where the topic changes', async () => {
+  const embedder = new TopicEmbeddingProvider();
+  const text = [...CATS, ...ROCKETS, ...CATS].join(' ');
+  const chunks = await chunkSemantically(text, embedder, { chunkSize: 500, overlap: 0, minChunkSize: 0 });
+
+  assert.deepEqual(chunks, [CATS.join(' '), ROCKETS.join(' '), CATS.join(' ')]);
+  assert.equal(embedder.requests.length, 1);
+  assert.equal(embedder.requests[0].length, 9);
+});
+
+test('semantic chunks are not closed at a breakpoint before the minimum size', async () => {
+  const text = [CATS[0], ROCKETS[0], CATS[1], ROCKETS[1]].join(' ');
+  const chunks = await chunkSemantically(text, new TopicEmbeddingProvider(), {
+    chunkSize: 500,
+    overlap: 0,
+    minChunkSize: 30,
+  });
+
+  assert.deepEqual(chunks, [
+    `${CATS[0]} ${ROCKETS[0]}`,
+    `${CATS[1]} ${ROCKETS[1]}`,
+  ]);
+});
+
+test('semantic chunks never exceed the chunk size', async () => {
+  const longSentence = `The cat ${'walked along the fence and '.repeat(6)}stopped.`;
+  const text = [...CATS, longSentence, ...CATS].join(' ');
+  const chunkSize = 60;
+  const chunks = await chunkSemantically(text, new TopicEmbeddingProvider(), { chunkSize, overlap: 0, minChunkSize: 0 });
+
+  assert.ok(chunks.length > 3);
+  for (const chunk of chunks) {
+    assert.ok(chunk.length <= chunkSize, `${chunk.length} > ${chunkSize}: ${chunk}`);
+  }
+  assert.equal(chunks.join(' ').replace(/\s+/g, ' '), text);
+});
+
+test('semantic chunks repeat trailing sentences that fit in the overlap', async () => {
+  const text = [...CATS, ...ROCKETS].join(' ');
+  const chunks = await chunkSemantically(text, new TopicEmbeddingProvider(), {
+    chunkSize: 500,
+    overlap: 20,
+    minChunkSize: 0,
+    breakpointPercentile: 0,
+  });
+
+  assert.deepEqual(chunks, [CATS.join(' '), [CATS[2], ...ROCKETS].join(' ')]);
+});
+
+test('semantic chunking needs an embedding provider', async () => {
+  await assert.rejects(async () => getChunker('semantic')('One. Two.'), /requires an embedding provider/);
+});
@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ragConfigFromEnv } from '../src/utils/config.js';
+
+const BASE_ENV = { RAG_PROVIDER: 'local', RAG_EMBEDDING_CACHE_PATH: '' };
+
+test('integer settings are read from the environment', () => {
+  const config = ragConfigFromEnv({
+    ...BASE_ENV,
+    RAG_EMBEDDING_DIMENSION: '256',
+    RAG_EMBEDDING_CACHE_SIZE: '0',
+    RAG_EMBEDDING_BATCH_SIZE: ' 20 ',
+    RAG_EMBEDDING_MAX_RETRIES: '',
+    RAG_PROVIDER_TIMEOUT_MS: '15000',
+  });
+  assert.equal(config.embeddingDimension, 256);
+  assert.equal(config.embeddingCacheSize, 0);
+  assert.equal(config.embeddingBatchSize, 20);
+  assert.equal(config.embeddingMaxRetries, undefined);
+  assert.equal(config.providerTimeoutMs, 15000);
+});
+
+test('non-numeric integer settings are rejected', () => {
+  for (const name of [
+    'RAG_EMBEDDING_DIMENSION',
+    'RAG_EMBEDDING_CACHE_SIZE',
+    'RAG_EMBEDDING_BATCH_SIZE',
+    'RAG_EMBEDDING_CONCURRENCY',
+    'RAG_EMBEDDING_REQUESTS_PER_MINUTE',
+    'RAG_EMBEDDING_MAX_RETRIES',
+    'RAG_MULTI_QUERY_COUNT',
+    'RAG_MAX_SUB_QUESTIONS',
+    'RAG_PROVIDER_TIMEOUT_MS',
+  ]) {
+    for (const value of ['four', '4x', '-1', '2.5']) {
+      assert.throws(
+        () => ragConfigFromEnv({ ...BASE_ENV, [name]: value }),
+        new RegExp(`${name} must be a non-negative integer`),
+        `${name}=${value}`
+      );
+    }
+  }
+});
+
+test('weights outside 0 to 1 are rejected', () => {
+  const config = ragConfigFromEnv({ ...BASE_ENV, RAG_KEYWORD_WEIGHT: ' 0.25 ', RAG_MMR_LAMBDA: '1' });
+  assert.equal(config.keywordWeight, 0.25);
+  assert.equal(config.mmrLambda, 1);
+  assert.equal(ragConfigFromEnv({ ...BASE_ENV, RAG_KEYWORD_WEIGHT: '' }).keywordWeight, undefined);
+  for (const name of ['RAG_KEYWORD_WEIGHT', 'RAG_MMR_LAMBDA']) {
+    for (const value of ['half', '0.5x', 'NaN', 'Infinity', '-0.1', '1.5']) {
+      assert.throws(
+        () => ragConfigFromEnv({ ...BASE_ENV, [name]: value }),
+        new RegExp(`${name} must be a number between 0 and 1`),
+        `${name}=${value}`
+      );
+    }
+  }
+});
+
+test('a non-numeric minimum score is rejected', () => {
+  assert.equal(ragConfigFromEnv({ ...BASE_ENV, RAG_MIN_SCORE: '-0.5' }).minScore, -0.5);
+  assert.equal(ragConfigFromEnv({ ...BASE_ENV, RAG_MIN_SCORE: '2' }).minScore, 2);
+  for (const value of ['high', '0.5x', 'NaN', '-Infinity']) {
+    assert.throws(
+      () => ragConfigFromEnv({ ...BASE_ENV, RAG_MIN_SCORE: value }),
+      /RAG_MIN_SCORE must be a number/,
+      value
+    );
+  }
+});
+
+test('an unknown context format is rejected', () => {
+  assert.equal(ragConfigFromEnv({ ...BASE_ENV, RAG_CONTEXT_FORMAT: 'toon' }).contextFormat, 'toon');
+  assert.equal(ragConfigFromEnv({ ...BASE_ENV, RAG_CONTEXT_FORMAT: '' }).contextFormat, undefined);
+  assert.throws(
+    () => ragConfigFromEnv({ ...BASE_ENV, RAG_CONTEXT_FORMAT: 'yaml' }),
+    /RAG_CONTEXT_FORMAT must be one of: plain, .*toon/
+  );
+});
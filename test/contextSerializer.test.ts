@@ -0,0 +1,16 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getContextSerializer, isContextFormat } from '../src/utils/contextSerializer.js';
+
+test('isContextFormat accepts only the supported formats', () => {
+  for (const format of ['plain', 'json', 'toon']) {
+    assert.equal(isContextFormat(format), true, format);
+  }
+  for (const value of ['toString', 'constructor', '__proto__', 'hasOwnProperty', 'xml', '', 1, undefined]) {
+    assert.equal(isContextFormat(value), false, String(value));
+  }
+});
+
+test('getContextSerializer rejects inherited property names', () => {
+  assert.throws(() => getContextSerializer('toString' as any), /Unknown context format/);
+});
@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EmbeddingCache } from '../src/utils/embeddingCache.js';
+
+function tempCachePath(): string {
+  return path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'embedding-cache-')), 'cache.jsonl');
+}
+
+test('entries stay readable when another process appends to the same file', () => {
+  const filePath = tempCachePath();
+  const server = new EmbeddingCache({ filePath, maxEntries: 1 });
+  const cli = new EmbeddingCache({ filePath, maxEntries: 1 });
+
+  server.set('m:x', [1, 2, 3]);
+  cli.set('m:y', [4, 5, 6, 7, 8]);
+  server.set('m:z', [9, 10]);
+
+  // Each read evicts the other entry from memory, so the next one comes from disk
+  assert.deepEqual(server.get('m:x'), [1, 2, 3]);
+  assert.deepEqual(server.get('m:z'), [9, 10]);
+  assert.equal(server.getStats().diskHits, 2);
+
+  const reopened = new EmbeddingCache({ filePath });
+  assert.deepEqual(reopened.get('m:x'), [1, 2, 3]);
+  assert.deepEqual(reopened.get('m:y'), [4, 5, 6, 7, 8]);
+  assert.deepEqual(reopened.get('m:z'), [9, 10]);
+});
+
+test('an entry that no longer matches the file is a miss', () => {
+  const filePath = tempCachePath();
+  const cache = new EmbeddingCache({ filePath, maxEntries: 1 });
+  cache.set('m:x', [1, 2, 3]);
+  cache.set('m:y', [4, 5, 6]);
+
+  fs.writeFileSync(filePath, 'not json at all, and long enough to cover the entries\n');
+  assert.equal(cache.get('m:x'), undefined);
+  assert.equal(cache.getStats().misses, 1);
+
+  // Stored again after the miss, at the file's current end
+  cache.set('m:x', [1, 2, 3]);
+  cache.get('m:y');
+  assert.deepEqual(cache.get('m:x'), [1, 2, 3]);
+});
+
+test('a line cut short by a crash is skipped and the next entry starts a new line', () => {
+  const filePath = tempCachePath();
+  new EmbeddingCache({ filePath }).set('m:x', [1, 2, 3]);
+  fs.appendFileSync(filePath, '{"k":"m:y","v":[4,5');
+
+  const cache = new EmbeddingCache({ filePath });
+  assert.equal(cache.getStats().diskEntries, 1);
+  cache.set('m:z', [6]);
+
+  const reopened = new EmbeddingCache({ filePath });
+  assert.equal(reopened.getStats().diskEntries, 2);
+  assert.deepEqual(reopened.get('m:x'), [1, 2, 3]);
+  assert.equal(reopened.get('m:y'), undefined);
+  assert.deepEqual(reopened.get('m:z'), [6]);
+});
+
+test('a cache file larger than one read chunk is indexed completely', () => {
+  const filePath = tempCachePath();
+  const writer = new EmbeddingCache({ filePath, maxEntries: 1 });
+  const vector = (i: number) => Array.from({ length: 500 }, (_, j) => i + j / 1000);
+  for (let i = 0; i < 400; i++) {
+    writer.set(`m:${i}`, vector(i));
+  }
+  assert.ok(fs.statSync(filePath).size > 1 << 20);
+
+  const reopened = new EmbeddingCache({ filePath, maxEntries: 1 });
+  assert.equal(reopened.getStats().diskEntries, 400);
+  for (const i of [0, 150, 299, 399]) {
+    assert.deepEqual(reopened.get(`m:${i}`), vector(i));
+  }
+});
@@ -0,0 +1,117 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EmbeddingProvider } from '../src/types.js';
+import { EmbeddingBatchError, EmbeddingGenerator } from '../src/utils/embeddings.js';
+import { EmbeddingCache } from '../src/utils/embeddingCache.js';
+import { LocalEmbeddingProvider } from '../src/utils/localProvider.js';
+
+/**
+ * Embedding provider that fails on request: the first `rateLimited` batch
+ * requests answer 429, and texts listed in `broken` always fail with a 400
+ */
+class FlakyEmbeddingProvider implements EmbeddingProvider {
+  private local = new LocalEmbeddingProvider(16);
+  rateLimited = 0;
+  broken = new Set<string>();
+  batches: string[][] = [];
+  inFlight = 0;
+  maxInFlight = 0;
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    const [embedding] = await this.generateEmbeddings([text]);
+    return embedding;
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    this.batches.push(texts);
+    this.inFlight++;
+    this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+    try {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      if (this.rateLimited > 0) {
+        this.rateLimited--;
+        throw Object.assign(new Error('Too many requests'), { status: 429 });
+      }
+      if (texts.some(text => this.broken.has(text))) {
+        throw Object.assign(new Error('Bad request'), { status: 400 });
+      }
+      return this.local.generateEmbeddings(texts);
+    } finally {
+      this.inFlight--;
+    }
+  }
+
+  getDimension(): number {
+    return this.local.getDimension();
+  }
+
+  getModelName(): string {
+    return 'flaky';
+  }
+}
+
+const texts = Array.from({ length: 10 }, (_, i) => `chunk ${i}`);
+
+test('texts are sent in batches with a bounded number of requests in flight', async () => {
+  const provider = new FlakyEmbeddingProvider();
+  const generator = new EmbeddingGenerator(provider, undefined, { batchSize: 3, concurrency: 2 });
+
+  const embeddings = await generator.generateEmbeddings(texts);
+
+  assert.equal(embeddings.length, texts.length);
+  assert.deepEqual(provider.batches.map(batch => batch.length), [3, 3, 3, 1]);
+  assert.equal(provider.maxInFlight, 2);
+});
+
+test('rate-limited requests are retried', async () => {
+  const provider = new FlakyEmbeddingProvider();
+  provider.rateLimited = 2;
+  const generator = new EmbeddingGenerator(provider, undefined, { batchSize: 5, baseDelayMs: 1, maxRetries: 3 });
+
+  const embeddings = await generator.generateEmbeddings(texts);
+
+  assert.equal(embeddings.length, texts.length);
+  assert.equal(provider.batches.length, 4);
+});
+
+test('rate limiting beyond the retry budget fails the affected chunks', async () => {
+  const provider = new FlakyEmbeddingProvider();
+  provider.rateLimited = 10;
+  const generator = new EmbeddingGenerator(provider, undefined, { batchSize: 10, baseDelayMs: 1, maxRetries: 2 });
+
+  await assert.rejects(generator.generateEmbeddings(texts), (error: any) => {
+    assert.ok(error instanceof EmbeddingBatchError);
+    assert.equal(error.failures.length, texts.length);
+    return true;
+  });
+  assert.equal(provider.batches.length, 3);
+});
+
+test('permanent failures name the failed chunks and are not retried', async () => {
+  const provider = new FlakyEmbeddingProvider();
+  provider.broken.add('chunk 4');
+  const generator = new EmbeddingGenerator(provider, undefined, { batchSize: 3, baseDelayMs: 1 });
+
+  await assert.rejects(generator.generateEmbeddings(texts), (error: any) => {
+    assert.ok(error instanceof EmbeddingBatchError);
+    assert.deepEqual(error.failures.map((failure: any) => failure.index), [3, 4, 5]);
+    assert.equal(error.total, texts.length);
+    assert.match(error.failures[0].error, /Bad request/);
+    return true;
+  });
+  assert.equal(provider.batches.length, 4);
+});
+
+test('after a partial failure only the failed chunks are embedded again', async () => {
+  const provider = new FlakyEmbeddingProvider();
+  provider.broken.add('chunk 4');
+  const generator = new EmbeddingGenerator(provider, new EmbeddingCache(), { batchSize: 3, baseDelayMs: 1 });
+
+  await assert.rejects(generator.generateEmbeddings(texts), EmbeddingBatchError);
+  provider.broken.clear();
+  provider.batches = [];
+
+  const embeddings = await generator.generateEmbeddings(texts);
+  assert.equal(embeddings.length, texts.length);
+  assert.deepEqual(provider.batches, [['chunk 3', 'chunk 4', 'chunk 5']]);
+});
@@ -0,0 +1,124 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Document } from '../src/types.js';
+import { INDEX_FORMAT_VERSION, legacyIndexFiles, manifestPath, readManifest, writeFileAtomic } from '../src/utils/indexManifest.js';
+import { FAISSVectorStore } from '../src/utils/vectorStore.js';
+import { HookedEmbeddingProvider, MemoryFlatIndex, memoryIndexType } from './support.js';
+
+const DOCUMENTS: Document[] = [
+  { id: 'pump-0', content: 'Pump P-100 needs service every 500 hours.', metadata: { source: 'pump.txt', chunkIndex: 0 } },
+  { id: 'valve-0', content: 'Valve V-7 is tightened to 40 Nm.', metadata: { source: 'valve.txt', chunkIndex: 0 } },
+];
+
+function tempIndexPath(): string {
+  return path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'index-manifest-')), 'faiss_index');
+}
+
+function newStore(): FAISSVectorStore {
+  const embedder = new HookedEmbeddingProvider();
+  return new FAISSVectorStore(embedder.getDimension(), embedder, memoryIndexType);
+}
+
+async function savedIndex(): Promise<string> {
+  const indexPath = tempIndexPath();
+  const store = newStore();
+  await store.addDocuments(DOCUMENTS);
+  store.saveIndex(indexPath);
+  return indexPath;
+}
+
+function rewriteManifest(indexPath: string, changes: Record<string, unknown>): void {
+  const manifest = JSON.parse(fs.readFileSync(manifestPath(indexPath), 'utf-8'));
+  fs.writeFileSync(manifestPath(indexPath), JSON.stringify({ ...manifest, ...changes }));
+}
+
+test('an index saved before manifests existed loads and is upgraded on the next save', async () => {
+  const embedder = new HookedEmbeddingProvider();
+  const index = new MemoryFlatIndex(embedder.getDimension());
+  for (const embedding of await embedder.generateEmbeddings(DOCUMENTS.map(doc => doc.content))) {
+    index.add(embedding);
+  }
+  // Legacy indexes may also predate the keyword index file
+  const indexPath = tempIndexPath();
+  const legacy = legacyIndexFiles(indexPath);
+  index.write(legacy.vectors);
+  fs.writeFileSync(legacy.documents, JSON.stringify(DOCUMENTS));
+
+  const store = newStore();
+  assert.equal(await store.loadIndex(indexPath), null);
+  assert.equal(store.getDocumentCount(), 2);
+  const [top] = await store.search('valve torque 40 Nm', 1, { keywordWeight: 1 });
+  assert.equal(top.document.id, 'valve-0');
+
+  const manifest = store.saveIndex(indexPath);
+  assert.equal(manifest.formatVersion, INDEX_FORMAT_VERSION);
+  assert.equal(fs.existsSync(legacy.vectors), false);
+  assert.equal(fs.existsSync(legacy.documents), false);
+  assert.equal(readManifest(indexPath).generation, 1);
+});
+
+test('a manifest of an older format version is read', async () => {
+  const indexPath = await savedIndex();
+  rewriteManifest(indexPath, { formatVersion: 1 });
+
+  const store = newStore();
+  assert.equal((await store.loadIndex(indexPath)).formatVersion, 1);
+  assert.equal(store.getDocumentCount(), 2);
+});
+
+test('a manifest of a newer format version is refused', async () => {
+  const indexPath = await savedIndex();
+  rewriteManifest(indexPath, { formatVersion: INDEX_FORMAT_VERSION + 1 });
+
+  await assert.rejects(
+    async () => newStore().loadIndex(indexPath),
+    new RegExp(`uses format version ${INDEX_FORMAT_VERSION + 1}; this version reads up to ${INDEX_FORMAT_VERSION}`)
+  );
+  rewriteManifest(indexPath, { formatVersion: 'two' });
+  await assert.rejects(async () => newStore().loadIndex(indexPath), /Invalid index manifest/);
+});
+
+test('a write that fails before its rename leaves the previous file and no temporary file', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'atomic-write-'));
+  const file = path.join(dir, 'data.json');
+  fs.writeFileSync(file, 'previous');
+
+  assert.throws(() => writeFileAtomic(file, tempFile => {
+    fs.writeFileSync(tempFile, 'partial');
+    throw new Error('disk full');
+  }), /disk full/);
+  assert.equal(fs.readFileSync(file, 'utf-8'), 'previous');
+  assert.deepEqual(fs.readdirSync(dir), ['data.json']);
+
+  // The rename itself fails when the target is a non-empty directory
+  const blocked = path.join(dir, 'blocked');
+  fs.mkdirSync(blocked);
+  fs.writeFileSync(path.join(blocked, 'keep'), '');
+  assert.throws(() => writeFileAtomic(blocked, tempFile => fs.writeFileSync(tempFile, 'new')));
+  assert.deepEqual(fs.readdirSync(dir).sort(), ['blocked', 'data.json']);
+});
+
+test('a save interrupted before its manifest is renamed loads the previous generation', async () => {
+  const indexPath = await savedIndex();
+  const store = newStore();
+  await store.loadIndex(indexPath);
+  await store.addDocuments([{ id: 'motor-0', content: 'Motor M-3 runs at 1500 rpm.', metadata: { source: 'motor.txt' } }]);
+
+  // What a crash leaves behind: the next generation's data files and a temporary manifest
+  const interrupted = tempIndexPath();
+  store.saveIndex(interrupted);
+  for (const file of fs.readdirSync(path.dirname(interrupted))) {
+    if (file.startsWith('faiss_index.1.')) {
+      fs.copyFileSync(path.join(path.dirname(interrupted), file), path.join(path.dirname(indexPath), file.replace('.1.', '.2.')));
+    }
+  }
+  fs.writeFileSync(`${manifestPath(indexPath)}.tmp-${process.pid}`, '{"formatVersion": 2, "gener');
+
+  const reloaded = newStore();
+  const manifest = await reloaded.loadIndex(indexPath);
+  assert.equal(manifest.generation, 1);
+  assert.deepEqual(reloaded.getSources().map(item => item.source).sort(), ['pump.txt', 'valve.txt']);
+});
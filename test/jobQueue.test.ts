@@ -0,0 +1,122 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { IngestionJob } from '../src/types.js';
+import { EmbeddingBatchError } from '../src/utils/embeddings.js';
+import { JobContext, JobQueue } from '../src/utils/jobQueue.js';
+
+const DETAILS = { collection: 'default', filename: 'manual.txt', format: 'text', keyId: null, acl: null } as const;
+
+const RESULT: IngestionJob['result'] = {
+  filename: 'manual.txt',
+  format: 'text',
+  documentsCreated: 1,
+  chunkStrategy: 'paragraph',
+  chunkSize: 1000,
+  chunkOverlap: 200,
+  skipped: false,
+  indexStats: { added: 1, unchanged: 0, removed: 0 },
+  success: true,
+};
+
+/**
+ * Task that waits until `finish` is called, recording its context
+ */
+function controllableTask() {
+  let finish: (error?: Error) => void;
+  const task: {
+    started: boolean;
+    context?: JobContext;
+    finish(error?: Error): void;
+    run(context: JobContext): Promise<IngestionJob['result']>;
+  } = {
+    started: false,
+    finish: error => finish(error),
+    run: (context: JobContext) => {
+      task.started = true;
+      task.context = context;
+      return new Promise<IngestionJob['result']>((resolve, reject) => {
+        finish = error => (error ? reject(error) : resolve(RESULT));
+        context.signal.addEventListener('abort', () => reject(context.signal.reason));
+      });
+    },
+  };
+  return task;
+}
+
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+test('a job runs to completion with its progress and result', async () => {
+  const queue = new JobQueue();
+  const task = controllableTask();
+  const job = queue.enqueue(DETAILS, context => task.run(context));
+  try {
+    assert.equal(job.status, 'running');
+    assert.ok(job.startedAt);
+
+    task.context.update({ stage: 'embedding', toEmbed: 10, embedded: 5 });
+    assert.equal(job.progress.percent, 58);
+
+    task.finish();
+    await settle();
+    assert.equal(job.status, 'completed');
+    assert.deepEqual(job.result, RESULT);
+    assert.equal(job.progress.percent, 100);
+    assert.ok(job.finishedAt);
+    assert.equal(queue.get(job.id), job);
+  } finally {
+    queue.close();
+  }
+});
+
+test('a failed job keeps its error and the chunks that failed to embed', async () => {
+  const queue = new JobQueue();
+  const task = controllableTask();
+  const failing = controllableTask();
+  try {
+    const job = queue.enqueue(DETAILS, context => task.run(context));
+    task.finish(new EmbeddingBatchError([{ index: 2, error: 'rate limited' }], 3));
+    await settle();
+    assert.equal(job.status, 'failed');
+    assert.match(job.error, /1 of 3/);
+    assert.deepEqual(job.failedChunks, [{ index: 2, error: 'rate limited' }]);
+
+    const plain = queue.enqueue(DETAILS, context => failing.run(context));
+    failing.finish(new Error('No content found in manual.txt'));
+    await settle();
+    assert.equal(plain.status, 'failed');
+    assert.equal(plain.error, 'No content found in manual.txt');
+    assert.equal(plain.failedChunks, undefined);
+    assert.equal(plain.result, null);
+  } finally {
+    queue.close();
+  }
+});
+
+test('jobs beyond the concurrency limit wait, and cancelling works in either state', async () => {
+  const queue = new JobQueue({ concurrency: 2 });
+  const tasks = [controllableTask(), controllableTask(), controllableTask(), controllableTask()];
+  try {
+    const jobs = tasks.map(task => queue.enqueue(DETAILS, context => task.run(context)));
+    assert.deepEqual(jobs.map(job => job.status), ['running', 'running', 'queued', 'queued']);
+    assert.deepEqual(queue.list().map(job => job.id), [...jobs].reverse().map(job => job.id));
+
+    queue.cancel(jobs[3].id);
+    assert.equal(jobs[3].status, 'cancelled');
+
+    tasks[0].finish();
+    await settle();
+    assert.deepEqual(jobs.map(job => job.status), ['completed', 'running', 'running', 'cancelled']);
+    assert.equal(tasks[3].started, false);
+
+    queue.cancel(jobs[1].id);
+    await settle();
+    assert.equal(jobs[1].status, 'cancelled');
+    assert.equal(jobs[1].error, null);
+
+    tasks[2].finish();
+    await settle();
+    assert.deepEqual(jobs.map(job => job.status), ['completed', 'cancelled', 'completed', 'cancelled']);
+  } finally {
+    queue.close();
+  }
+});
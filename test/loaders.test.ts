@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadDocuments } from '../src/utils/loaders.js';
+
+test('JSON records that are empty are skipped', async () => {
+  const json = JSON.stringify([{ sku: 'A-1' }, {}, { sku: null }, { sku: 'B-2', qty: 0 }]);
+  const documents = await loadDocuments(Buffer.from(json), 'items.json');
+
+  assert.deepEqual(documents.map(doc => doc.metadata.row), [{ sku: 'A-1' }, { sku: 'B-2', qty: 0 }]);
+  assert.deepEqual(documents.map(doc => doc.metadata.chunkIndex), [0, 1]);
+  assert.ok(documents.every(doc => doc.metadata.totalChunks === 2));
+  assert.ok(documents.every(doc => doc.content.trim().length > 0));
+});
+
+test('an empty JSON object yields no documents', async () => {
+  assert.deepEqual(await loadDocuments(Buffer.from('{}'), 'empty.json'), []);
+});
+
+test('CSV lines of empty cells are skipped', async () => {
+  const csv = 'sku,qty\nA-1,3\n,\nB-2,\n';
+  const documents = await loadDocuments(Buffer.from(csv), 'items.csv');
+
+  assert.deepEqual(documents.map(doc => doc.metadata.row), [
+    { sku: 'A-1', qty: 3 },
+    { sku: 'B-2', qty: null },
+  ]);
+});
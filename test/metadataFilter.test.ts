@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Document, MetadataFilter } from '../src/types.js';
+import { matchesFilter, validateFilter } from '../src/utils/metadataFilter.js';
+import { FAISSVectorStore } from '../src/utils/vectorStore.js';
+import { HookedEmbeddingProvider, memoryIndexType } from './support.js';
+
+const MANUAL: Document = {
+  id: 'manual-0',
+  content: 'Pump P-100 manual',
+  metadata: { source: 'manual.pdf', pages: 12, uploadedAt: '2024-03-01', row: { team: 'ops' } },
+};
+
+test('comparison and logical operators match metadata', () => {
+  const cases: Array<[MetadataFilter, boolean]> = [
+    [{ source: 'manual.pdf' }, true],
+    [{ source: { $ne: 'manual.pdf' } }, false],
+    [{ source: { $in: ['a.pdf', 'manual.pdf'] } }, true],
+    [{ source: { $nin: ['a.pdf', 'manual.pdf'] } }, false],
+    [{ pages: { $gt: 10, $lte: 12 } }, true],
+    [{ pages: { $lt: 12 } }, false],
+    [{ pages: { $gte: '10' } }, false],
+    [{ uploadedAt: { $gte: '2024-01-01', $lt: '2024-06-01' } }, true],
+    [{ title: { $exists: false } }, true],
+    [{ 'row.team': 'ops' }, true],
+    [{ $or: [{ pages: { $lt: 5 } }, { 'row.team': 'ops' }] }, true],
+    [{ $and: [{ source: 'manual.pdf' }, { pages: { $lt: 5 } }] }, false],
+    [{ $not: { source: 'manual.pdf' } }, false],
+  ];
+  for (const [filter, expected] of cases) {
+    assert.equal(matchesFilter(MANUAL, filter), expected, JSON.stringify(filter));
+  }
+});
+
+test('malformed filters are rejected with the path of the problem', () => {
+  assert.throws(() => validateFilter({ pages: { $near: 3 } }), /filter.pages has unknown operator \$near/);
+  assert.throws(() => validateFilter({ $or: [] }), /filter.\$or must be a non-empty array/);
+  assert.throws(() => validateFilter({ $and: [{ source: { $in: 'a.pdf' } }] }), /filter.\$and\[0\].source.\$in must be an array of values/);
+  assert.throws(() => validateFilter({ title: { $exists: 'yes' } }), /filter.title.\$exists must be a boolean/);
+});
+
+/**
+ * Store with `count` pump chunks in other.txt and three in target.txt
+ */
+async function storeWithTargets(count: number) {
+  const embedder = new HookedEmbeddingProvider();
+  const store = new FAISSVectorStore(embedder.getDimension(), embedder, memoryIndexType);
+  const others: Document[] = Array.from({ length: count }, (_, i) => ({
+    id: `other-${i}`,
+    content: `pump P-100 pressure reading ${i}`,
+    metadata: { source: 'other.txt', chunkIndex: i },
+  }));
+  const targets: Document[] = ['pump curve', 'valve torque table', 'motor wiring'].map((content, i) => ({
+    id: `target-${i}`,
+    content,
+    metadata: { source: 'target.txt', chunkIndex: i },
+  }));
+  await store.addDocuments([...others, ...targets]);
+  return store;
+}
+
+test('a filter that rejects most candidates still fills top K from the matching documents', async () => {
+  const store = await storeWithTargets(60);
+  const filter = { source: 'target.txt' };
+
+  for (const keywordWeight of [0, 0.5, 1]) {
+    const results = await store.search('pump P-100 pressure reading', 3, { filter, keywordWeight });
+    assert.deepEqual(
+      results.map(result => result.document.id).sort(),
+      keywordWeight === 1 ? ['target-0'] : ['target-0', 'target-1', 'target-2'],
+      `keywordWeight ${keywordWeight}`
+    );
+  }
+
+  const wider = await store.search('pump P-100 pressure reading', 10, { filter, keywordWeight: 0 });
+  assert.equal(wider.length, 3);
+  assert.deepEqual(await store.search('pump', 3, { filter: { source: 'missing.txt' } }), []);
+});
+
+test('a filter does not change the keyword scores of the documents it keeps', async () => {
+  const store = await storeWithTargets(20);
+  const query = 'pump curve';
+
+  const unfiltered = await store.search(query, 30, { keywordWeight: 1 });
+  const filtered = await store.search(query, 30, { filter: { source: 'target.txt' }, keywordWeight: 1 });
+
+  const unfilteredScores = new Map(unfiltered.map(result => [result.document.id, result.keywordScore]));
+  assert.deepEqual(filtered.map(result => result.document.id), ['target-0']);
+  assert.equal(filtered[0].keywordScore, unfilteredScores.get('target-0'));
+});
@@ -0,0 +1,203 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { ChatStreamChunk } from '../src/types.js';
+import { HttpError, RequestTimeoutError } from '../src/utils/httpClient.js';
+import { OpenAIChatProvider, OpenAIEmbeddingProvider } from '../src/utils/openaiProvider.js';
+import { OllamaChatProvider, OllamaEmbeddingProvider } from '../src/utils/ollamaProvider.js';
+import { isRetryableError } from '../src/utils/rateLimit.js';
+
+interface StubRequest {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+/**
+ * HTTP server on an ephemeral port that records each request and answers it
+ * with `respond`; a handler that never ends the response simulates a hung server
+ */
+async function startStub(respond: (request: StubRequest, res: http.ServerResponse) => void) {
+  const requests: StubRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      const request = { path: req.url, headers: req.headers, body: JSON.parse(raw) };
+      requests.push(request);
+      respond(request, res);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => {
+      server.closeAllConnections();
+      return new Promise<void>(resolve => server.close(() => resolve()));
+    },
+  };
+}
+
+function sendJSON(res: http.ServerResponse, body: unknown, status = 200): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function collect(stream: AsyncIterable<ChatStreamChunk>): Promise<ChatStreamChunk[]> {
+  const chunks: ChatStreamChunk[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+test('OpenAI embeddings are returned in input order with the API key sent', async () => {
+  const stub = await startStub((request, res) => sendJSON(res, {
+    data: [
+      { index: 1, embedding: [0, 1] },
+      { index: 0, embedding: [1, 0] },
+    ],
+  }));
+  try {
+    const provider = new OpenAIEmbeddingProvider({ baseUrl: `${stub.url}/v1/`, apiKey: 'sk-test', model: 'm', dimension: 2 });
+    assert.deepEqual(await provider.generateEmbeddings(['a', 'b']), [[1, 0], [0, 1]]);
+
+    const [request] = stub.requests;
+    assert.equal(request.path, '/v1/embeddings');
+    assert.equal(request.headers.authorization, 'Bearer sk-test');
+    assert.deepEqual(request.body, { model: 'm', input: ['a', 'b'] });
+  } finally {
+    await stub.close();
+  }
+});
+
+test('OpenAI chat completions are generated and streamed', async () => {
+  const stub = await startStub((request, res) => {
+    if (!request.body.stream) {
+      return sendJSON(res, { choices: [{ message: { content: 'Paris' } }] });
+    }
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    res.write('data: {"choices":[{"delta":{"content":"Par"}}]}\n\n');
+    res.write('data: {"choices":[{"delta":{"content":"is"}}]}\n\n');
+    res.write('data: {"choices":[],"usage":{"prompt_tokens":7,"completion_tokens":2}}\n\n');
+    res.end('data: [DONE]\n\n');
+  });
+  try {
+    const provider = new OpenAIChatProvider({ baseUrl: stub.url, model: 'chat' });
+    assert.equal(await provider.generate({ prompt: 'Capital of France?' }), 'Paris');
+    assert.deepEqual(stub.requests[0].body.messages, [{ role: 'user', content: 'Capital of France?' }]);
+
+    assert.deepEqual(await collect(provider.generateStream({ prompt: 'Capital of France?' })), [
+      { text: 'Par' },
+      { text: 'is' },
+      { usage: { promptTokens: 7, completionTokens: 2, estimated: false } },
+    ]);
+  } finally {
+    await stub.close();
+  }
+});
+
+test('Ollama embeddings use /api/embeddings for batches and single texts alike', async () => {
+  const stub = await startStub((request, res) => sendJSON(res, { embedding: [request.body.prompt.length, 1] }));
+  try {
+    const provider = new OllamaEmbeddingProvider({ baseUrl: stub.url, model: 'embed', dimension: 2 });
+    assert.deepEqual(await provider.generateEmbeddings(['a', 'bb', 'ccc', 'dddd', 'eeeee']), [[1, 1], [2, 1], [3, 1], [4, 1], [5, 1]]);
+    assert.deepEqual(await provider.generateEmbedding('bb'), [2, 1]);
+    assert.ok(stub.requests.every(request => request.path === '/api/embeddings'));
+    assert.deepEqual(stub.requests.map(request => request.body.prompt).sort(), ['a', 'bb', 'bb', 'ccc', 'dddd', 'eeeee']);
+    assert.deepEqual(stub.requests[0].body, { model: 'embed', prompt: stub.requests[0].body.prompt });
+  } finally {
+    await stub.close();
+  }
+});
+
+test('Ollama completions are generated and streamed', async () => {
+  const stub = await startStub((request, res) => {
+    if (!request.body.stream) {
+      return sendJSON(res, { response: 'Paris', done: true });
+    }
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+    res.write('{"response":"Par","done":false}\n');
+    res.write('{"response":"is","done":false}\n');
+    res.end('{"response":"","done":true,"prompt_eval_count":7,"eval_count":2}');
+  });
+  try {
+    const provider = new OllamaChatProvider({ baseUrl: stub.url });
+    assert.equal(await provider.generate({ prompt: 'Capital of France?' }), 'Paris');
+    assert.deepEqual(await collect(provider.generateStream({ prompt: 'Capital of France?' })), [
+      { text: 'Par' },
+      { text: 'is' },
+      { usage: { promptTokens: 7, completionTokens: 2, estimated: false } },
+    ]);
+  } finally {
+    await stub.close();
+  }
+});
+
+test('server errors surface as HttpError with the status', async () => {
+  const stub = await startStub((request, res) => sendJSON(res, { error: 'overloaded' }, 503));
+  try {
+    const provider = new OllamaEmbeddingProvider({ baseUrl: stub.url, dimension: 2 });
+    await assert.rejects(provider.generateEmbeddings(['a']), (error: any) => {
+      assert.ok(error instanceof HttpError);
+      assert.equal(error.status, 503);
+      return true;
+    });
+  } finally {
+    await stub.close();
+  }
+});
+
+test('a hung server fails with a retryable timeout', async () => {
+  const stub = await startStub(() => {});
+  try {
+    const embedder = new OpenAIEmbeddingProvider({ baseUrl: stub.url, dimension: 2, timeoutMs: 50 });
+    await assert.rejects(embedder.generateEmbeddings(['a']), (error: any) => {
+      assert.ok(error instanceof RequestTimeoutError);
+      assert.equal(isRetryableError(error), true);
+      return true;
+    });
+
+    const chat = new OllamaChatProvider({ baseUrl: stub.url, timeoutMs: 50 });
+    await assert.rejects(chat.generate({ prompt: 'q' }), RequestTimeoutError);
+    await assert.rejects(collect(chat.generateStream({ prompt: 'q' })), RequestTimeoutError);
+  } finally {
+    await stub.close();
+  }
+});
+
+test('a streamed answer may outlast the timeout once it has started', async () => {
+  const stub = await startStub((request, res) => {
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+    res.write('{"response":"slow","done":false}\n');
+    setTimeout(() => res.end('{"response":"","done":true}'), 120);
+  });
+  try {
+    const chat = new OllamaChatProvider({ baseUrl: stub.url, timeoutMs: 50 });
+    const chunks = await collect(chat.generateStream({ prompt: 'q' }));
+    assert.deepEqual(chunks[0], { text: 'slow' });
+  } finally {
+    await stub.close();
+  }
+});
+
+test('cancelling a request aborts it instead of timing out', async () => {
+  const stub = await startStub(() => {});
+  try {
+    const chat = new OpenAIChatProvider({ baseUrl: stub.url, timeoutMs: 5000 });
+    const controller = new AbortController();
+    const pending = chat.generate({ prompt: 'q' }, controller.signal);
+    setTimeout(() => controller.abort(), 20);
+    await assert.rejects(pending, (error: any) => {
+      assert.equal(error.name, 'AbortError');
+      assert.equal(isRetryableError(error), false);
+      return true;
+    });
+  } finally {
+    await stub.close();
+  }
+});
@@ -0,0 +1,94 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChatProvider, ChatRequest } from '../src/types.js';
+import { ragConfigFromEnv } from '../src/utils/config.js';
+import { parseQuestionList } from '../src/utils/queryTransforms.js';
+import { RAGSystem } from '../src/utils/ragSystem.js';
+import { setDefaultVectorIndexType } from '../src/utils/vectorStore.js';
+import { HookedEmbeddingProvider, memoryIndexType } from './support.js';
+
+setDefaultVectorIndexType(memoryIndexType);
+
+test('numbering, bullets and quotes are stripped from listed questions', () => {
+  const output = [
+    '1. How often is pump P-100 serviced?',
+    '2) What is the service interval of P-100?',
+    '',
+    '- "When does P-100 need maintenance?"',
+    '* Which parts of P-100 wear out?',
+    '• “How long does P-100 run between services?”',
+    'Q3: What does P-100 servicing involve?',
+  ].join('\n');
+
+  assert.deepEqual(parseQuestionList(output, 10), [
+    'How often is pump P-100 serviced?',
+    'What is the service interval of P-100?',
+    'When does P-100 need maintenance?',
+    'Which parts of P-100 wear out?',
+    'How long does P-100 run between services?',
+    'What does P-100 servicing involve?',
+  ]);
+});
+
+test('duplicates and excluded questions are dropped regardless of case', () => {
+  const output = 'How often is P-100 serviced?\nWhat is the P-100 interval?\n2. what is the p-100 interval?\nWhen is P-100 due?';
+  assert.deepEqual(
+    parseQuestionList(output, 10, ['  how often is p-100 serviced? ']),
+    ['What is the P-100 interval?', 'When is P-100 due?']
+  );
+});
+
+test('at most `max` questions are kept, counting only new ones', () => {
+  const output = 'Original?\nFirst?\nfirst?\nSecond?\nThird?';
+  assert.deepEqual(parseQuestionList(output, 2, ['Original?']), ['First?', 'Second?']);
+  assert.deepEqual(parseQuestionList('', 3), []);
+});
+
+/**
+ * Chat provider that lists five questions for every paraphrase or decomposition prompt
+ */
+class ListingChatProvider implements ChatProvider {
+  requests: ChatRequest[] = [];
+
+  async generate(request: ChatRequest): Promise<string> {
+    this.requests.push(request);
+    if (request.prompt.includes('QUESTIONS:')) {
+      return [1, 2, 3, 4, 5].map(n => `${n}. ${request.question} (variant ${n})`).join('\n');
+    }
+    return request.question || 'answer';
+  }
+
+  getModelName(): string {
+    return 'listing';
+  }
+}
+
+test('RAG_MULTI_QUERY_COUNT and RAG_MAX_SUB_QUESTIONS cap the generated questions', async () => {
+  const config = ragConfigFromEnv({
+    RAG_PROVIDER: 'local',
+    RAG_EMBEDDING_CACHE_PATH: '',
+    RAG_MULTI_QUERY_COUNT: '2',
+    RAG_MAX_SUB_QUESTIONS: '3',
+  });
+  const chatProvider = new ListingChatProvider();
+  const rag = new RAGSystem({ ...config, embeddingProvider: new HookedEmbeddingProvider(), chatProvider });
+  await rag.indexDocuments([
+    { id: 'pump-0', content: 'Pump P-100 needs service every 500 hours.', metadata: { source: 'pump.txt' } },
+  ]);
+
+  const response = await rag.query('How often is P-100 serviced and by whom?', { transforms: ['decompose', 'multi-query'] });
+
+  assert.equal(response.transforms.subQuestions.length, 3);
+  for (const subQuestion of response.transforms.subQuestions) {
+    assert.equal(subQuestion.paraphrases.length, 2);
+  }
+  assert.match(chatProvider.requests[0].prompt, /at most 3 simpler questions/);
+  assert.match(chatProvider.requests[1].prompt, /Write 2 different versions/);
+});
+
+test('question counts below one are refused', () => {
+  for (const [name, field] of [['RAG_MULTI_QUERY_COUNT', 'multiQueryCount'], ['RAG_MAX_SUB_QUESTIONS', 'maxSubQuestions']]) {
+    const config = ragConfigFromEnv({ RAG_PROVIDER: 'local', RAG_EMBEDDING_CACHE_PATH: '', [name]: '0' });
+    assert.throws(() => new RAGSystem(config), new RegExp(`${field} must be a positive integer`));
+  }
+});
@@ -0,0 +1,121 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChatProvider, ChatRequest, QueryStreamEvent } from '../src/types.js';
+import { CollectionManager } from '../src/utils/collections.js';
+import { RAGSystem } from '../src/utils/ragSystem.js';
+import { setDefaultVectorIndexType } from '../src/utils/vectorStore.js';
+import { HookedEmbeddingProvider, memoryIndexType } from './support.js';
+
+setDefaultVectorIndexType(memoryIndexType);
+
+/**
+ * Chat provider that records requests, runs `onRequest` before answering and
+ * answers with `reply` when it returns a string
+ */
+class ScriptedChatProvider implements ChatProvider {
+  requests: ChatRequest[] = [];
+  onRequest?: (request: ChatRequest) => void;
+  reply?: (request: ChatRequest) => string | undefined;
+
+  async generate(request: ChatRequest): Promise<string> {
+    this.requests.push(request);
+    this.onRequest?.(request);
+    return this.reply?.(request) ?? (request.question || 'answer');
+  }
+
+  getModelName(): string {
+    return 'scripted';
+  }
+}
+
+async function collect(stream: AsyncIterable<QueryStreamEvent>): Promise<QueryStreamEvent[]> {
+  const events: QueryStreamEvent[] = [];
+  for await (const event of stream) events.push(event);
+  return events;
+}
+
+test('a cancelled streaming query stops before retrieval and generation', async () => {
+  const embedder = new HookedEmbeddingProvider();
+  const chatProvider = new ScriptedChatProvider();
+  const rag = new RAGSystem({ provider: 'local', embeddingProvider: embedder, chatProvider, embeddingCacheSize: 0 });
+  await rag.indexDocuments([
+    { id: 'pump-0', content: 'Pump P-100 needs service every 500 hours.', metadata: { source: 'pump.txt' } },
+  ]);
+  embedder.requests = [];
+
+  // The client disconnects while the follow-up question is being condensed
+  const controller = new AbortController();
+  chatProvider.onRequest = () => controller.abort();
+  const history = [{ question: 'Which pump?', answer: 'P-100', sourceIds: [], timestamp: new Date().toISOString() }];
+
+  await assert.rejects(
+    collect(rag.queryStream('How often is it serviced?', { history, transforms: ['multi-query'] }, controller.signal)),
+    { name: 'AbortError' }
+  );
+  assert.equal(chatProvider.requests.length, 1);
+  assert.deepEqual(embedder.requests, []);
+});
+
+test('a streaming query that is not cancelled runs every step', async () => {
+  const embedder = new HookedEmbeddingProvider();
+  const chatProvider = new ScriptedChatProvider();
+  const rag = new RAGSystem({ provider: 'local', embeddingProvider: embedder, chatProvider, embeddingCacheSize: 0 });
+  await rag.indexDocuments([
+    { id: 'pump-0', content: 'Pump P-100 needs service every 500 hours.', metadata: { source: 'pump.txt' } },
+  ]);
+
+  const events = await collect(rag.queryStream('How often is P-100 serviced?', {}, new AbortController().signal));
+  assert.deepEqual(events.map(event => event.type), ['sources', 'token', 'done']);
+});
+
+test('querying a populated and an empty collection together returns the populated one\'s sources', async () => {
+  const chatProvider = new ScriptedChatProvider();
+  const collections = new CollectionManager({
+    rootDir: fs.mkdtempSync(path.join(os.tmpdir(), 'collections-')),
+    ragConfig: { provider: 'local', embeddingProvider: new HookedEmbeddingProvider(), chatProvider, embeddingCacheSize: 0 },
+  });
+  await collections.get('default').ragSystem.indexDocuments([
+    { id: 'pump-0', content: 'Pump P-100 needs service every 500 hours.', metadata: { source: 'pump.txt' } },
+  ]);
+  const empty = collections.create('empty');
+
+  const targets = collections.searchTargets([collections.get('default'), empty]);
+  const result = await empty.ragSystem.query('How often is P-100 serviced?', { searchTargets: targets });
+
+  assert.deepEqual(result.sources.map(source => [source.metadata.collection, source.metadata.source]), [
+    ['default', 'pump.txt'],
+  ]);
+  assert.equal(chatProvider.requests.length, 1);
+});
+
+test('a follow-up question is condensed from the recent history before retrieval', async () => {
+  const embedder = new HookedEmbeddingProvider();
+  const chatProvider = new ScriptedChatProvider();
+  const rag = new RAGSystem({ provider: 'local', embeddingProvider: embedder, chatProvider, embeddingCacheSize: 0, historyWindow: 2 });
+  await rag.indexDocuments([
+    { id: 'pump-0', content: 'Pump P-100 needs service every 500 hours.', metadata: { source: 'pump.txt' } },
+  ]);
+  embedder.requests = [];
+  chatProvider.reply = request =>
+    request.prompt.includes('STANDALONE QUESTION:') ? 'How often is pump P-100 serviced?' : undefined;
+  const history = ['Which valve?', 'Which motor?', 'Which pump?'].map((question, i) => ({
+    question,
+    answer: ['V-7', 'M-3', 'P-100'][i],
+    sourceIds: [],
+    timestamp: new Date().toISOString(),
+  }));
+
+  const response = await rag.query('How often is it serviced?', { history });
+
+  assert.equal(response.standaloneQuestion, 'How often is pump P-100 serviced?');
+  const [condense, answer] = chatProvider.requests;
+  assert.match(condense.prompt, /FOLLOW-UP QUESTION: How often is it serviced\?/);
+  assert.ok(condense.prompt.includes('User: Which pump?\nAssistant: P-100'));
+  assert.ok(!condense.prompt.includes('Which valve?'), 'turns outside the history window are left out');
+  assert.deepEqual(embedder.requests[0], ['How often is pump P-100 serviced?']);
+  assert.ok(answer.prompt.includes('User: Which motor?'));
+  assert.deepEqual(response.sources.map(source => source.id), ['pump-0']);
+});
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SearchResult } from '../src/types.js';
+import { Reranker } from '../src/utils/reranker.js';
+import { HookedEmbeddingProvider } from './support.js';
+
+async function results(embedder: HookedEmbeddingProvider, contents: string[], stored: boolean[]): Promise<SearchResult[]> {
+  const embeddings = await embedder.generateEmbeddings(contents);
+  return contents.map((content, idx) => ({
+    document: { id: `doc-${idx}`, content, metadata: {} },
+    score: 1 / (idx + 1),
+    embedding: stored[idx] ? embeddings[idx] : undefined,
+  }));
+}
+
+for (const strategy of ['embedding', 'mmr'] as const) {
+  test(`the ${strategy} strategy embeds only the query and results without a stored embedding`, async () => {
+    const embedder = new HookedEmbeddingProvider();
+    const candidates = await results(embedder, ['pump service', 'valve torque', 'pump curves'], [true, false, true]);
+    embedder.requests = [];
+
+    const reranked = await new Reranker(embedder, { strategy }).rerank('pump', candidates, 3);
+
+    assert.deepEqual(embedder.requests, [['pump', 'valve torque']]);
+    assert.equal(reranked.length, 3);
+  });
+
+  test(`the ${strategy} strategy scores stored embeddings like freshly embedded ones`, async () => {
+    const contents = ['pump service', 'valve torque', 'pump curves'];
+    const stored = await new Reranker(new HookedEmbeddingProvider(), { strategy })
+      .rerank('pump', await results(new HookedEmbeddingProvider(), contents, [true, true, true]), 3);
+    const embedded = await new Reranker(new HookedEmbeddingProvider(), { strategy })
+      .rerank('pump', await results(new HookedEmbeddingProvider(), contents, [false, false, false]), 3);
+
+    assert.deepEqual(
+      stored.map(result => [result.document.id, result.rerankScore]),
+      embedded.map(result => [result.document.id, result.rerankScore])
+    );
+  });
+}
@@ -0,0 +1,90 @@
+import { test, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { LocalEmbeddingProvider } from '../src/utils/localProvider.js';
+import { startApp } from './support.js';
+
+const TTL_MS = 60 * 1000;
+
+const app = await startApp({ env: { RAG_SESSION_TTL_MINUTES: '1' } });
+after(() => app.close());
+
+const indexed = await app.request('/api/index', {
+  json: { documents: [{ id: 'pump', content: 'Pump P-100 needs service every 500 hours.', metadata: { source: 'pump.txt' } }] },
+});
+assert.equal(indexed.status, 200);
+
+async function createSession(): Promise<string> {
+  const created = await app.request('/api/sessions', { json: {} });
+  assert.equal(created.status, 201);
+  return created.body.session.id;
+}
+
+/**
+ * Move the clock past the session TTL whenever a question is embedded, as if the query ran that long
+ */
+function expireDuringEmbedding() {
+  const generateEmbeddings = LocalEmbeddingProvider.prototype.generateEmbeddings;
+  return mock.method(LocalEmbeddingProvider.prototype, 'generateEmbeddings', function (this: LocalEmbeddingProvider, texts: string[]) {
+    mock.timers.tick(TTL_MS + 1000);
+    return generateEmbeddings.call(this, texts);
+  });
+}
+
+test('a session expires after the TTL without queries', async () => {
+  mock.timers.enable({ apis: ['Date'], now: Date.UTC(2026, 0, 1) });
+  try {
+    const sessionId = await createSession();
+    const first = await app.request('/api/query', { json: { query: 'Which pump needs service?', sessionId } });
+    assert.equal(first.body.data.sessionId, sessionId);
+
+    mock.timers.tick(TTL_MS - 1000);
+    assert.equal((await app.request(`/api/sessions/${sessionId}`)).body.session.turns.length, 1);
+
+    mock.timers.tick(TTL_MS);
+    const expired = await app.request('/api/query', { json: { query: 'How often?', sessionId } });
+    assert.deepEqual([expired.status, expired.body.error], [404, 'Session not found or expired']);
+    assert.equal((await app.request(`/api/sessions/${sessionId}`)).status, 404);
+  } finally {
+    mock.timers.reset();
+  }
+});
+
+test('a session that expires during a query still gets the answer', async () => {
+  mock.timers.enable({ apis: ['Date'], now: Date.UTC(2026, 0, 2) });
+  const embedding = expireDuringEmbedding();
+  try {
+    const sessionId = await createSession();
+    const response = await app.request('/api/query', { json: { query: 'What does pump P-100 need?', sessionId } });
+
+    assert.equal(response.status, 200);
+    assert.match(response.body.data.answer, /500 hours/);
+    assert.equal(response.body.data.sessionExpired, true);
+    assert.equal(response.body.data.sessionId, undefined);
+    assert.equal((await app.request(`/api/sessions/${sessionId}`)).status, 404);
+  } finally {
+    embedding.mock.restore();
+    mock.timers.reset();
+  }
+});
+
+test('a streamed answer reports a session that expired during the query', async () => {
+  mock.timers.enable({ apis: ['Date'], now: Date.UTC(2026, 0, 3) });
+  const embedding = expireDuringEmbedding();
+  try {
+    const sessionId = await createSession();
+    const response = await app.request('/api/query/stream', { json: { query: 'When is pump P-100 serviced?', sessionId } });
+
+    assert.equal(response.status, 200);
+    const events = response.text.trim().split('\n\n').map(block => {
+      const [event, data] = block.split('\n');
+      return { event: event.slice('event: '.length), data: JSON.parse(data.slice('data: '.length)) };
+    });
+    const done = events.find(event => event.event === 'done');
+    assert.ok(done, 'the stream finishes with a done event');
+    assert.equal(done.data.sessionExpired, true);
+    assert.ok(!events.some(event => event.event === 'error'));
+  } finally {
+    embedding.mock.restore();
+    mock.timers.reset();
+  }
+});
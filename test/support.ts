@@ -0,0 +1,210 @@
+/**
+ * Shared test helpers
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { EmbeddingProvider, VectorIndex, VectorIndexType } from '../src/types.js';
+import { LocalEmbeddingProvider } from '../src/utils/localProvider.js';
+import { logger } from '../src/utils/logger.js';
+import { setDefaultVectorIndexType } from '../src/utils/vectorStore.js';
+
+/**
+ * Whether faiss-node's native module loads; tests that need an index are skipped without it
+ */
+export const faissAvailable: boolean = await import('faiss-node').then(() => true, () => false);
+
+export const skipWithoutFaiss = faissAvailable ? false : 'faiss-node native module is not built';
+
+// FAISS serialization of an IndexFlatL2: fourcc, dimension, count, two unused
+// counters, trained flag, metric (1 = L2), float count, then the floats
+const FLAT_L2_DATA_OFFSET = 45;
+
+/**
+ * In-memory IndexFlatL2 that reads and writes FAISS's file format, so stores
+ * can be tested without the native module
+ */
+export class MemoryFlatIndex implements VectorIndex {
+  private dimension: number;
+  private vectors: Float32Array[] = [];
+
+  constructor(dimension: number) {
+    this.dimension = dimension;
+  }
+
+  add(vector: number[]): void {
+    this.vectors.push(Float32Array.from(vector));
+  }
+
+  search(vector: number[], k: number): { distances: number[]; labels: number[] } {
+    const ranked = this.vectors
+      .map((stored, label) => ({
+        label,
+        distance: stored.reduce((sum, value, i) => sum + (value - vector[i]) ** 2, 0),
+      }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, k);
+    return { distances: ranked.map(hit => hit.distance), labels: ranked.map(hit => hit.label) };
+  }
+
+  removeIds(ids: number[]): number {
+    const removed = new Set(ids);
+    const before = this.vectors.length;
+    this.vectors = this.vectors.filter((_, label) => !removed.has(label));
+    return before - this.vectors.length;
+  }
+
+  ntotal(): number {
+    return this.vectors.length;
+  }
+
+  getDimension(): number {
+    return this.dimension;
+  }
+
+  write(filePath: string): void {
+    const count = this.vectors.length;
+    const buffer = Buffer.alloc(FLAT_L2_DATA_OFFSET + count * this.dimension * 4);
+    buffer.write('IxF2', 0, 'latin1');
+    buffer.writeInt32LE(this.dimension, 4);
+    buffer.writeBigInt64LE(BigInt(count), 8);
+    buffer.writeBigInt64LE(1n << 20n, 16);
+    buffer.writeBigInt64LE(1n << 20n, 24);
+    buffer.writeUInt8(1, 32);
+    buffer.writeInt32LE(1, 33);
+    buffer.writeBigUInt64LE(BigInt(count * this.dimension), 37);
+    this.vectors.forEach((vector, i) => {
+      Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength)
+        .copy(buffer, FLAT_L2_DATA_OFFSET + i * this.dimension * 4);
+    });
+    fs.writeFileSync(filePath, buffer);
+  }
+
+  static fromBuffer(buffer: Buffer): MemoryFlatIndex {
+    const dimension = buffer.readInt32LE(4);
+    const count = Number(buffer.readBigInt64LE(8));
+    const index = new MemoryFlatIndex(dimension);
+    for (let i = 0; i < count; i++) {
+      const start = FLAT_L2_DATA_OFFSET + i * dimension * 4;
+      const vector = new Float32Array(dimension);
+      new Uint8Array(vector.buffer).set(buffer.subarray(start, start + dimension * 4));
+      index.vectors.push(vector);
+    }
+    return index;
+  }
+}
+
+export const memoryIndexType: VectorIndexType = {
+  create: dimension => new MemoryFlatIndex(dimension),
+  fromBuffer: buffer => MemoryFlatIndex.fromBuffer(buffer),
+};
+
+/**
+ * Deterministic local embedder that runs `beforeEmbedding` before answering
+ * each request, e.g. to change the index while an upload is being embedded
+ */
+export class HookedEmbeddingProvider implements EmbeddingProvider {
+  private local = new LocalEmbeddingProvider(64);
+  beforeEmbedding?: (texts: string[]) => void | Promise<void>;
+  requests: string[][] = [];
+
+  async generateEmbedding(text: string): Promise<number[]> {
+    const [embedding] = await this.generateEmbeddings([text]);
+    return embedding;
+  }
+
+  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+    this.requests.push(texts);
+    await this.beforeEmbedding?.(texts);
+    return this.local.generateEmbeddings(texts);
+  }
+
+  getDimension(): number {
+    return this.local.getDimension();
+  }
+
+  getModelName(): string {
+    return this.local.getModelName();
+  }
+}
+
+export interface TestResponse {
+  status: number;
+  headers: Headers;
+  text: string;
+  /**
+   * Parsed body of a JSON response
+   */
+  body: any;
+}
+
+export interface TestApp {
+  url: string;
+  /**
+   * Directory holding the app's indexes, key file and audit log
+   */
+  dir: string;
+  auditLogPath: string;
+  /**
+   * Send a request with an optional API key and JSON body
+   */
+  request(urlPath: string, init?: RequestInit & { key?: string; json?: unknown }): Promise<TestResponse>;
+  close(): Promise<void>;
+}
+
+/**
+ * Start the Express app on an ephemeral port, with the local provider, the
+ * in-memory index and every file in a temporary directory. The app reads its
+ * settings when first imported, so a test file can start it only once.
+ */
+export async function startApp(options: { keys?: unknown[]; env?: Record<string, string> } = {}): Promise<TestApp> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rag-app-'));
+  const keysPath = path.join(dir, 'api_keys.json');
+  if (options.keys) {
+    fs.writeFileSync(keysPath, JSON.stringify({ keys: options.keys }));
+  }
+  const auditLogPath = path.join(dir, 'audit.jsonl');
+  Object.assign(process.env, {
+    RAG_PROVIDER: 'local',
+    RAG_EMBEDDING_CACHE_PATH: '',
+    RAG_COLLECTIONS_DIR: path.join(dir, 'collections'),
+    RAG_INDEX_PATH: path.join(dir, 'faiss_index'),
+    RAG_API_KEYS_PATH: keysPath,
+    RAG_AUDIT_LOG_PATH: auditLogPath,
+    ...options.env,
+  });
+  setDefaultVectorIndexType(memoryIndexType);
+  logger.quiet = true;
+
+  const { default: app } = await import('../src/app.js');
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url,
+    dir,
+    auditLogPath,
+    request: async (urlPath, { key, json, headers, ...init } = {}) => {
+      const response = await fetch(url + urlPath, {
+        ...init,
+        method: init.method || (json === undefined ? 'GET' : 'POST'),
+        headers: {
+          ...(key ? { 'X-API-Key': key } : {}),
+          ...(json === undefined ? {} : { 'Content-Type': 'application/json' }),
+          ...(headers as Record<string, string>),
+        },
+        body: json === undefined ? init.body : JSON.stringify(json),
+      });
+      const text = await response.text();
+      const isJSON = response.headers.get('content-type')?.startsWith('application/json');
+      return { status: response.status, headers: response.headers, text, body: isJSON ? JSON.parse(text) : undefined };
+    },
+    close: () => {
+      server.closeAllConnections();
+      return new Promise<void>(resolve => server.close(() => resolve()));
+    },
+  };
+}
@@ -0,0 +1,63 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { fromToon, toToon, TOON_CONTENT_TYPE } from '../src/utils/toon.js';
+import { startApp } from './support.js';
+
+const app = await startApp();
+after(() => app.close());
+
+const PUMP = { id: 'pump', content: 'Pump P-100 needs service every 500 hours.', metadata: { source: 'pump.txt' } };
+
+test('responses are TOON when the client accepts it or asks with ?format=toon', async () => {
+  const accepted = await app.request('/api/health', { headers: { Accept: TOON_CONTENT_TYPE } });
+  assert.equal(accepted.status, 200);
+  assert.match(accepted.headers.get('content-type'), /^text\/toon/);
+  assert.match(accepted.headers.get('vary'), /Accept/);
+  assert.equal(fromToon<{ status: string }>(accepted.text).status, 'ok');
+
+  const queried = await app.request('/api/health?format=toon');
+  assert.match(queried.headers.get('content-type'), /^text\/toon/);
+
+  const overridden = await app.request('/api/health?format=json', { headers: { Accept: TOON_CONTENT_TYPE } });
+  assert.equal(overridden.body.status, 'ok');
+});
+
+test('responses stay JSON when the client does not ask for TOON', async () => {
+  for (const headers of [{}, { Accept: '*/*' }, { Accept: `application/json, ${TOON_CONTENT_TYPE};q=0.5` }]) {
+    const response = await app.request('/api/health', { headers });
+    assert.match(response.headers.get('content-type'), /^application\/json/, JSON.stringify(headers));
+    assert.equal(response.body.status, 'ok');
+  }
+});
+
+test('a TOON request body is decoded like JSON', async () => {
+  const indexed = await app.request('/api/index', {
+    method: 'POST',
+    headers: { 'Content-Type': TOON_CONTENT_TYPE },
+    body: toToon({ documents: [PUMP] }),
+  });
+  assert.equal(indexed.status, 200);
+  assert.equal(indexed.body.documentsIndexed, 1);
+
+  const answered = await app.request('/api/query', {
+    method: 'POST',
+    headers: { 'Content-Type': TOON_CONTENT_TYPE, Accept: TOON_CONTENT_TYPE },
+    body: toToon({ query: 'How often does pump P-100 need service?' }),
+  });
+  assert.equal(answered.status, 200);
+  const { data } = fromToon<{ data: { answer: string } }>(answered.text);
+  assert.match(data.answer, /500 hours/);
+});
+
+test('a malformed TOON body is answered with 400', async () => {
+  for (const body of ['documents[2]:\n  - id: pump', 'query: "unterminated']) {
+    const response = await app.request('/api/index', {
+      method: 'POST',
+      headers: { 'Content-Type': TOON_CONTENT_TYPE },
+      body,
+    });
+    assert.equal(response.status, 400);
+    assert.equal(response.body.success, false);
+    assert.match(response.body.error, /^Invalid TOON body: /);
+  }
+});
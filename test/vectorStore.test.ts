@@ -0,0 +1,117 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Document } from '../src/types.js';
+import { FAISSVectorStore } from '../src/utils/vectorStore.js';
+import { HookedEmbeddingProvider, memoryIndexType, skipWithoutFaiss } from './support.js';
+
+function chunks(source: string, contents: string[]): Document[] {
+  return contents.map((content, chunkIndex) => ({
+    id: `${source}-chunk-${chunkIndex}`,
+    content,
+    metadata: { source, chunkIndex },
+  }));
+}
+
+function contentsOf(store: FAISSVectorStore, source: string): string[] {
+  return store.getDocumentsBySource(source).map(doc => doc.content);
+}
+
+test('re-indexing a source stays consistent when another source is deleted during embedding', async () => {
+  const embedder = new HookedEmbeddingProvider();
+  const store = new FAISSVectorStore(embedder.getDimension(), embedder, memoryIndexType);
+  await store.addDocuments(chunks('a', ['alpha one', 'alpha two']), { replaceSources: true });
+  await store.addDocuments(chunks('b', ['bravo one', 'bravo two']), { replaceSources: true });
+
+  embedder.beforeEmbedding = () => {
+    embedder.beforeEmbedding = undefined;
+    store.deleteSource('a');
+  };
+  const stats = await store.addDocuments(
+    chunks('b', ['bravo one', 'bravo three', 'bravo four']),
+    { replaceSources: true }
+  );
+
+  assert.deepEqual(stats, { added: 2, unchanged: 1, removed: 1 });
+  assert.deepEqual(contentsOf(store, 'a'), []);
+  assert.deepEqual(contentsOf(store, 'b'), ['bravo one', 'bravo three', 'bravo four']);
+  assert.equal(store.getDocumentCount(), 3);
+
+  // Every vector still belongs to the document at its position
+  const [top] = await store.search('bravo four', 1, { keywordWeight: 0 });
+  assert.equal(top.document.content, 'bravo four');
+});
+
+test('a chunk whose indexed copy is removed during embedding is embedded too', async () => {
+  const embedder = new HookedEmbeddingProvider();
+  const store = new FAISSVectorStore(embedder.getDimension(), embedder, memoryIndexType);
+  await store.addDocuments(chunks('b', ['bravo one']), { replaceSources: true });
+
+  embedder.beforeEmbedding = () => {
+    embedder.beforeEmbedding = undefined;
+    store.clear();
+  };
+  await store.addDocuments(chunks('b', ['bravo one', 'bravo two']), { replaceSources: true });
+
+  assert.deepEqual(contentsOf(store, 'b'), ['bravo one', 'bravo two']);
+  assert.deepEqual(embedder.requests.slice(-2), [['bravo two'], ['bravo one']]);
+  const [top] = await store.search('bravo one', 1, { keywordWeight: 0 });
+  assert.equal(top.document.content, 'bravo one');
+});
+
+test('search results carry their stored embeddings, also after a save and load', async () => {
+  const embedder = new HookedEmbeddingProvider();
+  const store = new FAISSVectorStore(embedder.getDimension(), embedder, memoryIndexType);
+  await store.addDocuments(chunks('a', ['alpha one', 'alpha two']), { replaceSources: true });
+  await store.addDocuments(chunks('b', ['bravo one', 'bravo two']), { replaceSources: true });
+  store.deleteSource('a');
+
+  const [expected] = await embedder.generateEmbeddings(['bravo two']);
+  const closeTo = (actual: number[]) =>
+    actual.length === expected.length && actual.every((value, i) => Math.abs(value - expected[i]) < 1e-6);
+  const [top] = await store.search('bravo two', 1, { keywordWeight: 0 });
+  assert.ok(closeTo(top.embedding));
+
+  const filepath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'vector-store-')), 'index');
+  store.saveIndex(filepath);
+  const loaded = new FAISSVectorStore(embedder.getDimension(), embedder, memoryIndexType);
+  await loaded.loadIndex(filepath);
+  const [reloaded] = await loaded.search('bravo two', 1, { keywordWeight: 0 });
+  assert.equal(reloaded.document.content, 'bravo two');
+  assert.ok(closeTo(reloaded.embedding));
+});
+
+test('re-indexing a source embeds only its new chunks and drops the missing ones', async () => {
+  const embedder = new HookedEmbeddingProvider();
+  const store = new FAISSVectorStore(embedder.getDimension(), embedder, memoryIndexType);
+  await store.addDocuments(chunks('a', ['alpha one', 'alpha two', 'alpha three']), { replaceSources: true });
+  await store.addDocuments(chunks('b', ['bravo one']), { replaceSources: true });
+  embedder.requests = [];
+
+  const stats = await store.addDocuments(chunks('a', ['alpha three', 'alpha four']), { replaceSources: true });
+
+  assert.deepEqual(stats, { added: 1, unchanged: 1, removed: 2 });
+  assert.deepEqual(embedder.requests, [['alpha four']]);
+  assert.deepEqual(contentsOf(store, 'a'), ['alpha three', 'alpha four']);
+  assert.deepEqual(contentsOf(store, 'b'), ['bravo one']);
+  for (const content of ['alpha three', 'alpha four', 'bravo one']) {
+    const [top] = await store.search(content, 1, { keywordWeight: 0 });
+    assert.equal(top.document.content, content);
+  }
+});
+
+test('an index saved with FAISS loads into the in-memory test index', { skip: skipWithoutFaiss }, async () => {
+  const embedder = new HookedEmbeddingProvider();
+  const store = new FAISSVectorStore(embedder.getDimension(), embedder);
+  await store.addDocuments(chunks('a', ['alpha one', 'alpha two']), { replaceSources: true });
+  const filepath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'vector-store-')), 'index');
+  store.saveIndex(filepath);
+
+  const loaded = new FAISSVectorStore(embedder.getDimension(), embedder, memoryIndexType);
+  await loaded.loadIndex(filepath);
+  const [top] = await loaded.search('alpha two', 1, { keywordWeight: 0 });
+  assert.equal(top.document.content, 'alpha two');
+  assert.ok(top.embedding);
+});